@@ -11,3 +11,6 @@ export const DOM_DOCUMENT_NODE = 9;
 export const DOM_DOCUMENT_TYPE_NODE = 10;
 export const DOM_DOCUMENT_FRAGMENT_NODE = 11;
 export const DOM_NOTATION_NODE = 12;
+
+export const XSLT_NAMESPACE_URI = 'http://www.w3.org/1999/XSL/Transform';
+export const XPATH_FUNCTIONS_NAMESPACE_URI = 'http://www.w3.org/2005/xpath-functions';
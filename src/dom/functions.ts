@@ -15,8 +15,8 @@ export function domSetAttribute(node: XNode, name: string, value: any) {
     return node.setAttribute(name, value);
 }
 
-export function domSetTransformedAttribute(node: XNode, name: string, value: any) {
-    return node.setTransformedAttribute(name, value);
+export function domSetTransformedAttribute(node: XNode, name: string, value: any, namespaceUri?: string) {
+    return node.setTransformedAttribute(name, value, namespaceUri);
 }
 
 export function domAppendChild(node: XNode, child: any) {
@@ -47,6 +47,10 @@ export function domCreateComment(doc: any, text: any) {
     return doc.createComment(text);
 }
 
+export function domCreateProcessingInstruction(doc: XDocument, target: string, data: string) {
+    return doc.createProcessingInstruction(target, data);
+}
+
 export function domCreateDocumentFragment(doc: XDocument): XNode {
     return doc.createDocumentFragment();
 }
@@ -6,6 +6,7 @@ import {
     DOM_DOCUMENT_NODE,
     DOM_DOCUMENT_TYPE_NODE,
     DOM_ELEMENT_NODE,
+    DOM_PROCESSING_INSTRUCTION_NODE,
     DOM_TEXT_NODE
 } from '../constants';
 import { XNode } from './xnode';
@@ -13,11 +14,18 @@ import { XNode } from './xnode';
 export class XDocument extends XNode {
     documentElement: any;
 
+    /**
+     * The URI the document was loaded from, if known. Relative URIs
+     * in `document()` calls are resolved against it.
+     */
+    baseUri: string;
+
     constructor() {
         // NOTE(mesch): According to the DOM Spec, ownerDocument of a
         // document node is null.
         super(DOM_DOCUMENT_NODE, '#document', null, null);
         this.documentElement = null;
+        this.baseUri = null;
     }
 
     // TODO: Do we still need this?
@@ -28,7 +36,8 @@ export class XDocument extends XNode {
 
     appendChild(node: any) {
         super.appendChild(node);
-        this.documentElement = this.childNodes[0];
+        // Comments and processing instructions can come before the root element.
+        this.documentElement = this.childNodes.find((c) => c.nodeType === DOM_ELEMENT_NODE) || null;
     }
 
     createElement(name: string): XNode {
@@ -69,6 +78,10 @@ export class XDocument extends XNode {
         return XNode.create(DOM_CDATA_SECTION_NODE, '#cdata-section', data, this);
     }
 
+    createProcessingInstruction(target: string, data: string) {
+        return XNode.create(DOM_PROCESSING_INSTRUCTION_NODE, target, data, this);
+    }
+
     createDTDSection(data: any) {
         return XNode.create(DOM_DOCUMENT_TYPE_NODE, '#dtd-section', data, this);
     }
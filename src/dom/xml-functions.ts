@@ -8,6 +8,7 @@ import {
     DOM_DOCUMENT_NODE,
     DOM_DOCUMENT_TYPE_NODE,
     DOM_ELEMENT_NODE,
+    DOM_PROCESSING_INSTRUCTION_NODE,
     DOM_TEXT_NODE
 } from '../constants';
 import { domGetAttributeValue } from './functions';
@@ -37,6 +38,7 @@ export function xmlValue(node: XNode | any, disallowBrowserSpecificOptimization:
         case DOM_TEXT_NODE:
         case DOM_CDATA_SECTION_NODE:
         case DOM_ATTRIBUTE_NODE:
+        case DOM_PROCESSING_INSTRUCTION_NODE:
             return node.nodeValue;
         case DOM_ELEMENT_NODE:
         case DOM_DOCUMENT_NODE:
@@ -56,12 +58,16 @@ export function xmlValue(node: XNode | any, disallowBrowserSpecificOptimization:
             }
 
             if (node.transformedChildNodes.length > 0) {
-                const transformedTextNodes = node.transformedChildNodes.filter((n: XNode) => n.nodeType !== DOM_ATTRIBUTE_NODE);
+                const transformedTextNodes = node.transformedChildNodes.filter(
+                    (n: XNode) => n.nodeType !== DOM_ATTRIBUTE_NODE && n.nodeType !== DOM_PROCESSING_INSTRUCTION_NODE
+                );
                 for (let i = 0; i < transformedTextNodes.length; ++i) {
                     ret += xmlValue(transformedTextNodes[i]);
                 }
             } else {
-                const textNodes = node.childNodes.filter((n: XNode) => n.nodeType !== DOM_ATTRIBUTE_NODE);
+                const textNodes = node.childNodes.filter(
+                    (n: XNode) => n.nodeType !== DOM_ATTRIBUTE_NODE && n.nodeType !== DOM_PROCESSING_INSTRUCTION_NODE
+                );
                 for (let i = 0; i < textNodes.length; ++i) {
                     ret += xmlValue(textNodes[i]);
                 }
@@ -111,6 +117,7 @@ export function xmlValue2(node: any, disallowBrowserSpecificOptimization: boolea
 /**
  * Returns the representation of a node as XML text.
  * In general it is not used by XSLT, that uses `xmlTransformedText` instead.
+ * With `options.indent`, child elements are written on their own lines.
  * @param {XNode} node The starting node.
  * @param {XmlOutputOptions} options XML output options.
  * @returns The XML string.
@@ -123,11 +130,11 @@ export function xmlText(node: XNode, options: XmlOutputOptions = {
     outputMethod: 'xml'
 }) {
     const buffer: string[] = [];
-    xmlTextRecursive(node, buffer, options);
-    return buffer.join('');
+    xmlTextRecursive(node, buffer, options, xmlInitialDepth(options));
+    return xmlRemoveLeadingNewline(buffer.join(''), options);
 }
 
-function xmlTextRecursive(node: XNode, buffer: string[], options: XmlOutputOptions) {
+function xmlTextRecursive(node: XNode, buffer: string[], options: XmlOutputOptions, depth?: number) {
     if (node.nodeType == DOM_TEXT_NODE) {
         buffer.push(xmlEscapeText(node.nodeValue));
     } else if (node.nodeType == DOM_CDATA_SECTION_NODE) {
@@ -138,6 +145,8 @@ function xmlTextRecursive(node: XNode, buffer: string[], options: XmlOutputOptio
         }
     } else if (node.nodeType == DOM_COMMENT_NODE) {
         buffer.push(`<!--${node.nodeValue}-->`);
+    } else if (node.nodeType == DOM_PROCESSING_INSTRUCTION_NODE) {
+        buffer.push(xmlProcessingInstruction(node.nodeName, node.nodeValue, options));
     } else if (node.nodeType == DOM_ELEMENT_NODE) {
         buffer.push(`<${xmlFullNodeName(node)}`);
 
@@ -160,20 +169,34 @@ function xmlTextRecursive(node: XNode, buffer: string[], options: XmlOutputOptio
             }
         } else {
             buffer.push('>');
-            for (let i = 0; i < node.childNodes.length; ++i) {
-                xmlTextRecursive(node.childNodes[i], buffer, options);
+            const childNodes = node.childNodes.filter((n) => n.nodeType !== DOM_ATTRIBUTE_NODE);
+            const childDepth = xmlIndentsChildren(node, childNodes, options, false) ? xmlChildDepth(depth) : undefined;
+            const start = buffer.length;
+            for (let i = 0; i < childNodes.length; ++i) {
+                xmlIndent(buffer, options, childDepth, () => xmlTextRecursive(childNodes[i], buffer, options, childDepth));
             }
+
+            if (childDepth !== undefined && buffer.length > start) {
+                buffer.push(xmlIndentation(depth, options));
+            }
+
             buffer.push(`</${xmlFullNodeName(node)}>`);
         }
     } else if (node.nodeType == DOM_DOCUMENT_NODE || node.nodeType == DOM_DOCUMENT_FRAGMENT_NODE) {
+        const childDepth = xmlIsMixedContent(node.childNodes, options, false) ? undefined : depth;
         for (let i = 0; i < node.childNodes.length; ++i) {
-            xmlTextRecursive(node.childNodes[i], buffer, options);
+            xmlIndent(buffer, options, childDepth, () => xmlTextRecursive(node.childNodes[i], buffer, options, childDepth));
         }
     }
 }
 
 /**
  * Returns the representation of a node as XML text.
+ * With the `xml` output method, the XML declaration is written first
+ * if `options.xmlDeclaration` is set. A DOCTYPE is written before the
+ * first element if `options.doctypeSystem` (or, with the `html` output
+ * method, `options.doctypePublic`) is set. With `options.indent`, child
+ * elements are written on their own lines, except in mixed content.
  * @param {XNode} node The starting node.
  * @param {XmlOutputOptions} options XML output options.
  * @returns The XML string.
@@ -188,20 +211,90 @@ export function xmlTransformedText(
     }
 ) {
     const buffer: string[] = [];
-    xmlTransformedTextRecursive(node, buffer, options);
-    return buffer.join('');
+    const depth = xmlInitialDepth(options);
+    xmlTransformedTextRecursive(node, buffer, options, depth);
+
+    const firstElementIndex = buffer.findIndex((text) => /^<[^?!/]/.test(text));
+    const doctype = xmlDoctype(buffer[firstElementIndex], options);
+    if (firstElementIndex >= 0 && doctype) {
+        buffer.splice(firstElementIndex, 0, doctype, xmlIndentation(depth, options));
+    }
+
+    const text = xmlRemoveLeadingNewline(buffer.join(''), options);
+    if (options.outputMethod === 'xml' && options.xmlDeclaration) {
+        return `${xmlDeclaration(options)}${xmlIndentation(depth, options)}${text}`;
+    }
+
+    return text;
+}
+
+/**
+ * Returns the XML declaration, with the version, encoding and standalone
+ * of the output options.
+ * @param options XML output options.
+ * @returns The XML declaration.
+ */
+function xmlDeclaration(options: XmlOutputOptions): string {
+    let declaration = `<?xml version="${options.version || '1.0'}" encoding="${options.encoding || 'UTF-8'}"`;
+    if (options.standalone) {
+        declaration += ` standalone="${options.standalone}"`;
+    }
+
+    return `${declaration}?>`;
+}
+
+/**
+ * Returns the DOCTYPE declaration of the output options. The text output
+ * method has none.
+ * @param elementStart The start of the first element tag, like `<html`.
+ * @param options XML output options.
+ * @returns The DOCTYPE declaration, or an empty string if there is none.
+ */
+function xmlDoctype(elementStart: string, options: XmlOutputOptions): string {
+    if (
+        !elementStart ||
+        options.outputMethod === 'text' ||
+        !(options.doctypeSystem || (options.outputMethod === 'html' && options.doctypePublic))
+    ) {
+        return '';
+    }
+
+    let doctype = `<!DOCTYPE ${elementStart.substring(1)}`;
+    if (options.doctypePublic) {
+        doctype += ` PUBLIC "${options.doctypePublic}"`;
+    } else {
+        doctype += ' SYSTEM';
+    }
+
+    if (options.doctypeSystem) {
+        doctype += ` "${options.doctypeSystem}"`;
+    }
+
+    return `${doctype}>`;
 }
 
-function xmlTransformedTextRecursive(node: XNode, buffer: any[], options: XmlOutputOptions) {
+function xmlTransformedTextRecursive(node: XNode, buffer: any[], options: XmlOutputOptions, depth?: number) {
     if (node.visited) return;
     const nodeType = node.transformedNodeType || node.nodeType;
     const nodeValue = node.transformedNodeValue || node.nodeValue;
     if (nodeType === DOM_TEXT_NODE) {
-        if (node.transformedNodeValue && node.transformedNodeValue.trim() !== '') {
-            const finalText = node.escape && options.escape?
-                xmlEscapeText(node.transformedNodeValue) :
-                node.transformedNodeValue;
-            buffer.push(finalText);
+        if (node.transformedNodeValue) {
+            const parent = node.transformedParentNode;
+            if (
+                options.cDataSectionElements &&
+                parent &&
+                parent.nodeType === DOM_ELEMENT_NODE &&
+                options.cDataSectionElements.includes(xmlFullNodeName(parent))
+            ) {
+                // Text nodes keep their entity references, which CDATA sections cannot have.
+                const text = he.decode(node.transformedNodeValue);
+                buffer.push(`<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`);
+            } else {
+                const finalText = node.escape && options.escape?
+                    xmlEscapeText(node.transformedNodeValue) :
+                    node.transformedNodeValue;
+                buffer.push(finalText);
+            }
         }
     } else if (nodeType === DOM_CDATA_SECTION_NODE) {
         if (options.cData) {
@@ -211,34 +304,56 @@ function xmlTransformedTextRecursive(node: XNode, buffer: any[], options: XmlOut
         }
     } else if (nodeType == DOM_COMMENT_NODE) {
         buffer.push(`<!-- ${nodeValue} -->`);
+    } else if (nodeType == DOM_PROCESSING_INSTRUCTION_NODE) {
+        buffer.push(xmlProcessingInstruction(node.transformedNodeName || node.nodeName, nodeValue, options));
     } else if (nodeType == DOM_ELEMENT_NODE) {
         // If node didn't have a transformed name, but its children
         // had transformations, children should be present at output.
         // This is called here "muted logic".
-        if (node.transformedNodeName !== null && node.transformedNodeName !== undefined) {
-            xmlElementLogicTrivial(node, buffer, options);
+        if (xmlIsMuted(node)) {
+            xmlElementLogicMuted(node, buffer, options, depth);
         } else {
-            xmlElementLogicMuted(node, buffer, options);
+            xmlElementLogicTrivial(node, buffer, options, depth);
         }
     } else if (nodeType === DOM_DOCUMENT_NODE || nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
         const childNodes = node.transformedChildNodes.concat(node.childNodes);
         childNodes.sort((a, b) => a.siblingPosition - b.siblingPosition);
-
-        for (let i = 0; i < childNodes.length; ++i) {
-            xmlTransformedTextRecursive(childNodes[i], buffer, options);
-        }
+        const childDepth = xmlIsMixedContent(childNodes, options, true) ? undefined : depth;
+        xmlTransformedChildNodesText(childNodes, buffer, options, childDepth);
     }
 
     node.visited = true;
 }
 
+/**
+ * Writes transformed child nodes. When `depth` is defined, each child
+ * that writes something starts on a new line, indented to `depth`.
+ * The children of muted elements are indented as if they were children
+ * of the parent.
+ * @param childNodes The child nodes.
+ * @param buffer The XML buffer.
+ * @param options XML output options.
+ * @param depth The indentation depth of the children, if indenting.
+ */
+function xmlTransformedChildNodesText(childNodes: XNode[], buffer: string[], options: XmlOutputOptions, depth?: number) {
+    for (let i = 0; i < childNodes.length; ++i) {
+        const childNode = childNodes[i];
+        if (xmlIsMuted(childNode)) {
+            xmlTransformedTextRecursive(childNode, buffer, options, depth);
+        } else {
+            xmlIndent(buffer, options, depth, () => xmlTransformedTextRecursive(childNode, buffer, options, depth));
+        }
+    }
+}
+
 /**
  * XML element output, trivial logic.
  * @param node The XML node.
  * @param buffer The XML buffer.
- * @param cdata If using CDATA configuration.
+ * @param options XML output options.
+ * @param depth The indentation depth of the element, if indenting.
  */
-function xmlElementLogicTrivial(node: XNode, buffer: string[], options: XmlOutputOptions) {
+function xmlElementLogicTrivial(node: XNode, buffer: string[], options: XmlOutputOptions, depth?: number) {
     buffer.push(`<${xmlFullNodeName(node)}`);
 
     let attributes = node.transformedChildNodes.filter(n => n.nodeType === DOM_ATTRIBUTE_NODE);
@@ -252,7 +367,8 @@ function xmlElementLogicTrivial(node: XNode, buffer: string[], options: XmlOutpu
             continue;
         }
 
-        if (attribute.transformedNodeName && attribute.transformedNodeValue) {
+        // `xmlns=""` undeclares the default namespace.
+        if (attribute.transformedNodeName && (attribute.transformedNodeValue || attribute.transformedNodeName === 'xmlns')) {
             buffer.push(` ${xmlFullNodeName(attribute)}="${xmlEscapeAttr(attribute.transformedNodeValue)}"`);
         }
     }
@@ -273,9 +389,13 @@ function xmlElementLogicTrivial(node: XNode, buffer: string[], options: XmlOutpu
         }
     } else {
         buffer.push('>');
-        for (let i = 0; i < childNodes.length; ++i) {
-            xmlTransformedTextRecursive(childNodes[i], buffer, options);
+        const childDepth = xmlIndentsChildren(node, childNodes, options, true) ? xmlChildDepth(depth) : undefined;
+        const start = buffer.length;
+        xmlTransformedChildNodesText(childNodes, buffer, options, childDepth);
+        if (childDepth !== undefined && buffer.length > start) {
+            buffer.push(xmlIndentation(depth, options));
         }
+
         buffer.push(`</${xmlFullNodeName(node)}>`);
     }
 }
@@ -286,14 +406,147 @@ function xmlElementLogicTrivial(node: XNode, buffer: string[], options: XmlOutpu
  * children can be printed if they have transformed values.
  * @param node The XML node.
  * @param buffer The XML buffer.
- * @param cdata If using CDATA configuration.
+ * @param options XML output options.
+ * @param depth The indentation depth of the children, if indenting.
  */
-function xmlElementLogicMuted(node: XNode, buffer: any[], options: XmlOutputOptions) {
-    let childNodes = node.transformedChildNodes.length > 0 ? node.transformedChildNodes : node.childNodes;
-    childNodes = childNodes.sort((a, b) => a.siblingPosition - b.siblingPosition);
-    for (let i = 0; i < childNodes.length; ++i) {
-        xmlTransformedTextRecursive(childNodes[i], buffer, options);
+function xmlElementLogicMuted(node: XNode, buffer: any[], options: XmlOutputOptions, depth?: number) {
+    const childNodes = xmlMutedChildNodes(node).sort((a, b) => a.siblingPosition - b.siblingPosition);
+    xmlTransformedChildNodesText(childNodes, buffer, options, depth);
+}
+
+/**
+ * Whether an element is muted, that is, only its children are written.
+ * @param node The node.
+ * @returns `true` for muted elements.
+ */
+function xmlIsMuted(node: XNode): boolean {
+    return (
+        (node.transformedNodeType || node.nodeType) === DOM_ELEMENT_NODE &&
+        (node.transformedNodeName === null || node.transformedNodeName === undefined)
+    );
+}
+
+function xmlMutedChildNodes(node: XNode): XNode[] {
+    return node.transformedChildNodes.length > 0 ? node.transformedChildNodes : node.childNodes;
+}
+
+/**
+ * HTML elements whose content is not indented, and which are not
+ * indented inside their parents: inline elements, and elements whose
+ * whitespace is significant.
+ */
+const htmlNotIndentedElements = [
+    'a', 'abbr', 'acronym', 'b', 'bdo', 'big', 'br', 'button', 'cite', 'code', 'dfn', 'em', 'font', 'i', 'img',
+    'input', 'kbd', 'label', 'map', 'object', 'pre', 'q', 's', 'samp', 'script', 'select', 'small', 'span',
+    'strike', 'strong', 'style', 'sub', 'sup', 'textarea', 'tt', 'u', 'var'
+];
+
+function xmlIsHtmlNotIndented(node: XNode, options: XmlOutputOptions): boolean {
+    return options.outputMethod === 'html' && htmlNotIndentedElements.includes(xmlFullNodeName(node).toLowerCase());
+}
+
+/**
+ * Whether child nodes are mixed content, where adding whitespace would
+ * change the text: they have text, or HTML inline elements.
+ * @param childNodes The child nodes.
+ * @param options XML output options.
+ * @param transformed Whether the nodes are written with their transformed values.
+ * @returns `true` for mixed content.
+ */
+function xmlIsMixedContent(childNodes: XNode[], options: XmlOutputOptions, transformed: boolean): boolean {
+    return childNodes.some((childNode) => {
+        switch (childNode.transformedNodeType || childNode.nodeType) {
+            case DOM_TEXT_NODE:
+                return !!(transformed ? childNode.transformedNodeValue : childNode.nodeValue);
+            case DOM_CDATA_SECTION_NODE:
+                return true;
+            case DOM_ELEMENT_NODE:
+                if (transformed && xmlIsMuted(childNode)) {
+                    return xmlIsMixedContent(xmlMutedChildNodes(childNode), options, transformed);
+                }
+
+                return xmlIsHtmlNotIndented(childNode, options);
+            default:
+                return false;
+        }
+    });
+}
+
+/**
+ * Whether the children of an element are indented: not in mixed content,
+ * in `xml:space="preserve"` elements or in HTML inline elements.
+ * @param node The element.
+ * @param childNodes The child nodes of the element, without attributes.
+ * @param options XML output options.
+ * @param transformed Whether the nodes are written with their transformed values.
+ * @returns `true` if the children are indented.
+ */
+function xmlIndentsChildren(node: XNode, childNodes: XNode[], options: XmlOutputOptions, transformed: boolean): boolean {
+    const space = transformed ?
+        node.transformedChildNodes.concat(node.childNodes).find(
+            (n) => n.nodeType === DOM_ATTRIBUTE_NODE && xmlFullNodeName(n) === 'xml:space' && n.transformedNodeValue
+        )?.transformedNodeValue :
+        domGetAttributeValue(node, 'xml:space');
+
+    return space !== 'preserve' && !xmlIsHtmlNotIndented(node, options) && !xmlIsMixedContent(childNodes, options, transformed);
+}
+
+function xmlInitialDepth(options: XmlOutputOptions): number | undefined {
+    return options.indent && options.outputMethod !== 'text' ? 0 : undefined;
+}
+
+function xmlChildDepth(depth?: number): number | undefined {
+    return depth === undefined ? undefined : depth + 1;
+}
+
+/**
+ * Returns a new line with the indentation of a depth, or an empty string
+ * when not indenting.
+ * @param depth The depth, if indenting.
+ * @param options XML output options, with the indentation width and character.
+ * @returns The indentation.
+ */
+function xmlIndentation(depth: number | undefined, options: XmlOutputOptions): string {
+    if (depth === undefined) {
+        return '';
     }
+
+    const width = options.indentWidth === undefined ? 2 : options.indentWidth;
+    return `\n${(options.indentChar || ' ').repeat(width * depth)}`;
+}
+
+/**
+ * Writes a node on a new line, if indenting. The new line is removed if
+ * the node writes nothing.
+ * @param buffer The XML buffer.
+ * @param options XML output options.
+ * @param depth The indentation depth of the node, if indenting.
+ * @param write Writes the node to the buffer.
+ */
+function xmlIndent(buffer: string[], options: XmlOutputOptions, depth: number | undefined, write: () => void) {
+    const start = buffer.length;
+    buffer.push(xmlIndentation(depth, options));
+    write();
+    if (buffer.length === start + 1) {
+        buffer.pop();
+    }
+}
+
+function xmlRemoveLeadingNewline(text: string, options: XmlOutputOptions): string {
+    return options.indent ? text.replace(/^\n/, '') : text;
+}
+
+/**
+ * Processing instruction output. With the `html` output method,
+ * processing instructions end with `>` instead of `?>`.
+ * @param target The processing instruction target.
+ * @param data The processing instruction data.
+ * @param options XML output options.
+ * @returns The processing instruction, as text.
+ */
+function xmlProcessingInstruction(target: string, data: string, options: XmlOutputOptions): string {
+    const content = data ? `${target} ${data}` : target;
+    return options.outputMethod === 'html' ? `<?${content}>` : `<?${content}?>`;
 }
 
 /**
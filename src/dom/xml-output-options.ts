@@ -2,5 +2,15 @@ export type XmlOutputOptions = {
     cData: boolean;
     escape: boolean;
     selfClosingTags: boolean;
-    outputMethod: 'xml' | 'html' | 'text' | 'name'
+    outputMethod: 'xml' | 'html' | 'text' | 'name';
+    xmlDeclaration?: boolean;
+    version?: string;
+    encoding?: string;
+    standalone?: string;
+    doctypePublic?: string;
+    doctypeSystem?: string;
+    cDataSectionElements?: string[];
+    indent?: boolean;
+    indentWidth?: number;
+    indentChar?: string;
 }
@@ -5,6 +5,7 @@ import {
     domAppendChild,
     domCreateTextNode,
     domCreateComment,
+    domCreateProcessingInstruction,
     domCreateCDATASection,
     domCreateDTDSection
 } from './functions';
@@ -86,6 +87,24 @@ export class XmlParser {
         return map;
     }
 
+    /**
+     * Appends a processing instruction to the node being parsed.
+     * @param xmlDocument The document being parsed.
+     * @param parent The parent node.
+     * @param content The text between the delimiters, starting with the target.
+     */
+    private appendProcessingInstruction(xmlDocument: XDocument, parent: XNode, content: string) {
+        const target = content.match(/^[^\s]*/)[0];
+        // The XML declaration looks like a processing instruction, but it is not one.
+        if (target.toLowerCase() === 'xml') {
+            return;
+        }
+
+        const node = domCreateProcessingInstruction(xmlDocument, target, content.slice(target.length).trimStart());
+        node.siblingPosition = parent.childNodes.length;
+        domAppendChild(parent, node);
+    }
+
     /**
      * HTML needs to be parsed differently because it's a special case of XML.
      * Sources:
@@ -164,6 +183,15 @@ export class XmlParser {
                             domAppendChild(parent, node);
                             i += endTagIndex + 6;
                         }
+                    } else if (htmlText.charAt(i + 1) === '?') {
+                        // In HTML, processing instructions end at the first `>`, with or without `?`.
+                        let endIndex = htmlText.indexOf('>', i + 2);
+                        if (endIndex < 0) {
+                            endIndex = htmlText.length;
+                        }
+
+                        this.appendProcessingInstruction(xmlDocument, parent, htmlText.slice(i + 2, endIndex).replace(/\?$/, ''));
+                        i = endIndex;
                     } else if (htmlText.slice(i + 1, i + 9) === '!DOCTYPE') {
                         let endTagIndex = htmlText.slice(i + 9).indexOf('>');
                         if (endTagIndex) {
@@ -234,8 +262,6 @@ export class XmlParser {
                 if (text.charAt(0) === '/') {
                     stack.pop();
                     parent = stack[stack.length - 1];
-                } else if (text.charAt(0) === '?') {
-                    // Ignore XML declaration and processing instructions
                 } else if (text.charAt(0) === '!') {
                     // Ignore comments
                     // console.log(`Ignored ${text}`);
@@ -294,6 +320,14 @@ export class XmlParser {
                         domAppendChild(parent, node);
                         i += endTagIndex + 6;
                     }
+                } else if (xml.charAt(i + 1) === '?') {
+                    const endIndex = xml.indexOf('?>', i + 2);
+                    if (endIndex < 0) {
+                        throw new Error('Unterminated processing instruction.');
+                    }
+
+                    this.appendProcessingInstruction(xmlDocument, parent, xml.slice(i + 2, endIndex));
+                    i = endIndex + 1;
                 } else if (xml.slice(i + 1, i + 9) === '![CDATA[') {
                     let endTagIndex = xml.slice(i + 9).indexOf(']]>');
                     if (endTagIndex) {
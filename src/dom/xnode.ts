@@ -346,24 +346,33 @@ export class XNode {
         this.appendChild(newAttribute);
     }
 
-    setTransformedAttribute(name: string, value: any) {
+    setTransformedAttribute(name: string, value: any, namespaceUri?: string) {
         const transformedAttributes = this.transformedChildNodes.filter(n => n.nodeType === DOM_ATTRIBUTE_NODE);
         for (let i = 0; i < transformedAttributes.length; ++i) {
             const transformedAttribute = transformedAttributes[i];
             if (transformedAttribute.nodeName === name) {
                 transformedAttribute.transformedNodeName = name;
                 transformedAttribute.transformedNodeValue = `${value}`;
+                if (namespaceUri !== undefined) {
+                    transformedAttribute.namespaceUri = namespaceUri || null;
+                }
                 return;
             }
         }
 
-        const newAttribute = XNode.create(DOM_ATTRIBUTE_NODE, name, value, this);
+        const newAttribute = XNode.create(DOM_ATTRIBUTE_NODE, name, value, this, namespaceUri);
         newAttribute.transformedNodeName = name;
         newAttribute.transformedNodeValue = value;
         newAttribute.parentNode = this;
         this.appendTransformedChild(newAttribute);
     }
 
+    removeTransformedAttribute(name: string) {
+        this.transformedChildNodes = this.transformedChildNodes.filter(
+            (n) => n.nodeType !== DOM_ATTRIBUTE_NODE || n.transformedNodeName !== name
+        );
+    }
+
     setAttributeNS(namespace: any, name: any, value: any) {
         const attributes = this.childNodes.filter(n => n.nodeType === DOM_ATTRIBUTE_NODE);
         for (let i = 0; i < attributes.length; ++i) {
@@ -1,4 +1,4 @@
 export { XPath } from './xpath';
-export { Xslt, XsltOptions } from './xslt';
+export { Xslt, XsltOptions, XsltTerminationError } from './xslt';
 export { XmlParser, xmlEscapeText } from './dom';
 export { ExprContext } from './xpath';
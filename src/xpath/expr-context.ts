@@ -2,6 +2,7 @@ import { DOM_DOCUMENT_NODE } from '../constants';
 import { BooleanValue } from './values/boolean-value';
 import { NodeSetValue } from './values/node-set-value';
 import { NumberValue } from './values/number-value';
+import { SequenceValue } from './values/sequence-value';
 import { StringValue } from './values/string-value';
 import { TOK_NUMBER } from './tokens';
 import { XNode } from '../dom';
@@ -62,8 +63,50 @@ export class ExprContext {
     root: XNode;
     decimalFormatSettings: XsltDecimalFormatSettings;
 
-    inApplyTemplates: boolean;
-    baseTemplateMatched: boolean;
+    /**
+     * Resolves `key()` calls. Set by the XSLT processor, and shared by
+     * all the contexts cloned from the one it is set on.
+     */
+    keyResolver: (context: ExprContext, name: string, values: string[]) => XNode[];
+
+    /**
+     * Loads the documents of `document()` calls. The URI is resolved against
+     * the base URI of the document of `baseNode`, or of the stylesheet when
+     * there is no base node. Set by the XSLT processor, like `keyResolver`.
+     */
+    documentResolver: (context: ExprContext, uri: string, baseNode?: XNode) => XNode;
+
+    /**
+     * Tells whether an instruction is implemented, for `element-available()`.
+     * Set by the XSLT processor, like `keyResolver`.
+     */
+    elementAvailable: (namespaceUri: string, localName: string) => boolean;
+
+    /**
+     * The group and the grouping key of the innermost `xsl:for-each-group`,
+     * for `current-group()` and `current-grouping-key()`. Contexts cloned
+     * from the one they are set on share them.
+     */
+    currentGroup: XNode[];
+    currentGroupingKey: string;
+
+    /**
+     * The captured groups of the substring matched by the innermost
+     * `xsl:analyze-string`, for `regex-group()`; the whole match is
+     * group 0. Contexts cloned from the one they are set on share them.
+     */
+    regexGroups: string[];
+
+    /**
+     * Returns the stylesheet function (`xsl:function`) of a name and arity, as
+     * a function of the argument values, or `undefined` if there is none. Any
+     * arity matches when it is not given. Set by the XSLT processor, like `keyResolver`.
+     */
+    functionResolver: (
+        namespaceUri: string,
+        localName: string,
+        arity?: number
+    ) => ((context: ExprContext, args: NodeValue[]) => NodeValue) | undefined;
 
     /**
      * Constructor -- gets the node, its position, the node set it
@@ -117,8 +160,6 @@ export class ExprContext {
         this.ignoreAttributesWithoutValue = opt_ignoreAttributesWithoutValue || false;
         this.returnOnFirstMatch = opt_returnOnFirstMatch || false;
         this.ignoreNonElementNodesForNTA = opt_ignoreNonElementNodesForNTA || false;
-        this.inApplyTemplates = false;
-        this.baseTemplateMatched = false;
         this.outputDepth = opt_outputDepth || 0;
 
         this.decimalFormatSettings = opt_decimalFormatSettings || {
@@ -136,6 +177,13 @@ export class ExprContext {
 
         if (opt_parent) {
             this.root = opt_parent.root;
+            this.keyResolver = opt_parent.keyResolver;
+            this.documentResolver = opt_parent.documentResolver;
+            this.elementAvailable = opt_parent.elementAvailable;
+            this.functionResolver = opt_parent.functionResolver;
+            this.currentGroup = opt_parent.currentGroup;
+            this.currentGroupingKey = opt_parent.currentGroupingKey;
+            this.regexGroups = opt_parent.regexGroups;
         } else if (this.nodeList[this.position].nodeType == DOM_DOCUMENT_NODE) {
             // NOTE(mesch): DOM Spec stipulates that the ownerDocument of a
             // document is null. Our root, however is the document that we are
@@ -201,7 +249,8 @@ export class ExprContext {
             value instanceof StringValue ||
             value instanceof BooleanValue ||
             value instanceof NumberValue ||
-            value instanceof NodeSetValue
+            value instanceof NodeSetValue ||
+            value instanceof SequenceValue
         ) {
             this.variables[name] = value;
             return;
@@ -2,6 +2,7 @@ import { xmlValue } from "../../dom";
 import { ExprContext } from "../expr-context";
 import { BooleanValue } from "../values/boolean-value";
 import { NumberValue } from "../values/number-value";
+import { SequenceValue } from "../values/sequence-value";
 import { Expression } from "./expression";
 
 export class BinaryExpr extends Expression {
@@ -86,7 +87,9 @@ export class BinaryExpr extends Expression {
         const v2 = this.expr2.evaluate(ctx);
 
         let ret;
-        if (v1.type == 'node-set' && v2.type == 'node-set') {
+        if (v1.type == 'sequence' || v2.type == 'sequence') {
+            ret = this.compareSequences(v1, v2, cmp);
+        } else if (v1.type == 'node-set' && v2.type == 'node-set') {
             const n1 = v1.nodeSetValue();
             const n2 = v2.nodeSetValue();
             ret = false;
@@ -163,4 +166,22 @@ export class BinaryExpr extends Expression {
 
         return new BooleanValue(ret);
     }
+
+    // The general comparison of XPath 2.0: true if any pair of the atomized
+    // items compares true, as booleans, numbers or strings.
+    private compareSequences(v1: any, v2: any, cmp: any) {
+        const items1 = new SequenceValue(SequenceValue.itemsOf(v1)).atomize();
+        const items2 = new SequenceValue(SequenceValue.itemsOf(v2)).atomize();
+        return items1.some((item1: any) => items2.some((item2: any) => {
+            if (item1.type == 'boolean' || item2.type == 'boolean') {
+                return cmp(item1.booleanValue(), item2.booleanValue());
+            }
+
+            if (item1.type == 'number' || item2.type == 'number') {
+                return cmp(item1.numberValue(), item2.numberValue());
+            }
+
+            return cmp(item1.stringValue(), item2.stringValue());
+        }));
+    }
 }
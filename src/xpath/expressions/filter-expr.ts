@@ -1,5 +1,6 @@
 import { ExprContext } from "..";
 import { NodeSetValue } from "../values/node-set-value";
+import { SequenceValue } from "../values/sequence-value";
 import { Expression } from "./expression";
 
 export class FilterExpr extends Expression {
@@ -19,8 +20,13 @@ export class FilterExpr extends Expression {
         // unit test.
         const flag = context.returnOnFirstMatch;
         context.setReturnOnFirstMatch(false);
-        let nodes = this.expr.evaluate(context).nodeSetValue();
+        const value = this.expr.evaluate(context);
         context.setReturnOnFirstMatch(flag);
+        if (value instanceof SequenceValue) {
+            return this.filterSequence(context, value);
+        }
+
+        let nodes = value.nodeSetValue();
 
         for (let i = 0; i < this.predicate.length; ++i) {
             const nodes0 = nodes;
@@ -35,4 +41,17 @@ export class FilterExpr extends Expression {
 
         return new NodeSetValue(nodes);
     }
+
+    // The items of a sequence are kept in order, atomic values included.
+    private filterSequence(context: ExprContext, value: SequenceValue) {
+        let sequence = value;
+        for (let i = 0; i < this.predicate.length; ++i) {
+            const nodes = sequence.contextNodes();
+            sequence = new SequenceValue(
+                sequence.value.filter((item, j) => this.predicate[i].evaluate(context.clone(nodes, undefined, j)).booleanValue())
+            );
+        }
+
+        return sequence;
+    }
 }
@@ -1,8 +1,10 @@
+import { XPATH_FUNCTIONS_NAMESPACE_URI } from '../../constants';
 import { ExprContext } from '../expr-context';
 import {
     count,
     generateId,
     id,
+    key,
     last,
     localName,
     _name,
@@ -32,13 +34,16 @@ import {
     ceiling,
     round,
     current,
+    document,
+    elementAvailable,
     formatNumber,
+    functionAvailable,
     stringJoin,
-    replace
+    replace,
+    systemProperty
 } from '../functions';
 import { extCardinal, extIf, extJoin } from '../functions/non-standard';
-import { lowerCase, upperCase } from '../functions/standard-20';
-import { BooleanValue } from '../values/boolean-value';
+import { currentGroup, currentGroupingKey, lowerCase, regexGroup, tokenize, upperCase } from '../functions/standard-20';
 import { Expression } from './expression';
 
 export class FunctionCallExpr extends Expression {
@@ -52,12 +57,18 @@ export class FunctionCallExpr extends Expression {
         contains,
         count,
         current,
+        'current-group': currentGroup,
+        'current-grouping-key': currentGroupingKey,
+        document,
+        'element-available': elementAvailable,
         'ends-with': endsWith,
         false: _false,
         'format-number': formatNumber,
+        'function-available': functionAvailable,
         floor,
         'generate-id': generateId,
         id,
+        key,
         lang,
         last,
         'local-name': localName,
@@ -69,6 +80,7 @@ export class FunctionCallExpr extends Expression {
         not,
         number,
         position,
+        'regex-group': regexGroup,
         round,
         'starts-with': startsWith,
         string: _string,
@@ -78,6 +90,8 @@ export class FunctionCallExpr extends Expression {
         'substring-after': substringAfter,
         sum,
         'string-length': stringLength,
+        'system-property': systemProperty,
+        tokenize,
         translate,
         true: _true,
         'upper-case': upperCase,
@@ -120,6 +134,23 @@ export class FunctionCallExpr extends Expression {
             return resolvedFunction.call(this, context);
         }
 
-        return new BooleanValue(false);
+        // Names with a prefix can be of stylesheet functions, declared with `xsl:function`.
+        const separator = functionName.indexOf(':');
+        const namespaceUri = separator > 0 ? context.knownNamespaces[functionName.substring(0, separator)] : undefined;
+        const builtInFunction = namespaceUri === XPATH_FUNCTIONS_NAMESPACE_URI ?
+            this.xPathFunctions[functionName.substring(separator + 1)] :
+            undefined;
+        if (builtInFunction) {
+            return builtInFunction.call(this, context);
+        }
+
+        const stylesheetFunction = namespaceUri !== undefined && context.functionResolver ?
+            context.functionResolver(namespaceUri, functionName.substring(separator + 1), this.args.length) :
+            undefined;
+        if (stylesheetFunction) {
+            return stylesheetFunction(context, this.args.map((arg) => arg.evaluate(context)));
+        }
+
+        throw new Error(`Unknown function: ${functionName}(), with ${this.args.length} argument(s).`);
     }
 }
@@ -6,6 +6,7 @@ export * from './location-expr';
 export * from './number-expr';
 export * from './path-expr';
 export * from './predicate-expr';
+export * from './sequence-expr';
 export * from './step-expr';
 export * from './token-expr';
 export * from './unary-minus-expr';
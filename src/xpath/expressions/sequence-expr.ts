@@ -0,0 +1,28 @@
+import { ExprContext } from "..";
+import { SequenceItem, SequenceValue } from "../values/sequence-value";
+import { Expression } from "./expression";
+
+/**
+ * The comma operator of XPath 2.0: the items of all the expressions, in order.
+ */
+export class SequenceExpr extends Expression {
+    exprs: Expression[];
+
+    constructor(exprs: Expression[]) {
+        super();
+        this.exprs = exprs;
+    }
+
+    evaluate(context: ExprContext) {
+        if (context.xsltVersion === '1.0') {
+            throw new Error('Sequence expressions require XSLT version 2.0 or later.');
+        }
+
+        let items: SequenceItem[] = [];
+        for (const expr of this.exprs) {
+            items = items.concat(SequenceValue.itemsOf(expr.evaluate(context)));
+        }
+
+        return new SequenceValue(items);
+    }
+}
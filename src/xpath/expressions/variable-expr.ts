@@ -10,6 +10,11 @@ export class VariableExpr extends Expression {
     }
 
     evaluate(context: ExprContext) {
-        return context.getVariable(this.name);
+        const value = context.getVariable(this.name);
+        if (value === null) {
+            throw new Error(`Unknown variable: $${this.name}.`);
+        }
+
+        return value;
     }
 }
@@ -18,3 +18,29 @@ const sRE = new RegExp(`(\\${regExpSpecials.join('|\\')})`, 'g');
 export function regExpEscape(text: string) {
     return text.replace(sRE, '\\$1');
 }
+
+/**
+ * Creates a regular expression from an XPath pattern and flags, as taken by
+ * `matches()` and `xsl:analyze-string`. The flags are `s`, `m` and `i`, as in
+ * JavaScript, `x`, to ignore whitespace outside character classes, and `q`,
+ * to take the pattern literally.
+ * @param pattern The XPath regular expression.
+ * @param flags The XPath flags.
+ * @param global Whether the expression finds all the matches, as in `exec()` loops.
+ * @returns The regular expression. Invalid patterns throw a `SyntaxError`.
+ */
+export function xPathRegExp(pattern: string, flags: string = '', global: boolean = false): RegExp {
+    if (/[^smixq]/.test(flags)) {
+        throw new Error(`Invalid regular expression syntax: ${flags}`);
+    }
+
+    if (flags.includes('q')) {
+        pattern = regExpEscape(pattern);
+    } else if (flags.includes('x')) {
+        // Escaped characters and character classes are matched as a whole, so their whitespace is kept.
+        pattern = pattern.replace(/\\.|\[(?:\\.|[^\]\\])*\]|\s+/g, (token) => token.trim() && token);
+    }
+
+    const jsFlags = ['s', 'm', 'i'].filter((flag) => flags.includes(flag)).join('');
+    return new RegExp(pattern, global ? `${jsFlags}g` : jsFlags);
+}
@@ -1,6 +1,6 @@
 import { ExprContext } from "../expr-context";
-import { StringValue } from "../values";
-import { assert } from "./internal-functions";
+import { NodeSetValue, SequenceValue, StringValue } from "../values";
+import { assert, xPathRegExp } from "./internal-functions";
 
 export function upperCase(context: ExprContext) {
     assert(['2.0', '3.0'].includes(context.xsltVersion));
@@ -13,3 +13,61 @@ export function lowerCase(context: ExprContext) {
     const str: string = this.args[0].evaluate(context).stringValue();
     return new StringValue(str.toLowerCase());
 }
+
+export function currentGroup(context: ExprContext) {
+    assert(['2.0', '3.0'].includes(context.xsltVersion));
+    assert(this.args.length === 0);
+    return new NodeSetValue(context.currentGroup || []);
+}
+
+export function currentGroupingKey(context: ExprContext) {
+    assert(['2.0', '3.0'].includes(context.xsltVersion));
+    assert(this.args.length === 0);
+    return new StringValue(context.currentGroupingKey || '');
+}
+
+export function regexGroup(context: ExprContext) {
+    assert(['2.0', '3.0'].includes(context.xsltVersion));
+    assert(this.args.length === 1);
+    const group = this.args[0].evaluate(context).numberValue();
+    return new StringValue((context.regexGroups || [])[group] || '');
+}
+
+export function tokenize(context: ExprContext) {
+    assert(['2.0', '3.0'].includes(context.xsltVersion));
+    assert(this.args.length === 2 || this.args.length === 3);
+    const input: string = this.args[0].evaluate(context).stringValue();
+    const pattern: string = this.args[1].evaluate(context).stringValue();
+    const flags: string = this.args.length > 2 ? this.args[2].evaluate(context).stringValue() : '';
+    let regExp: RegExp;
+    try {
+        regExp = xPathRegExp(pattern, flags, true);
+    } catch (e) {
+        if (!(e instanceof SyntaxError)) {
+            throw e;
+        }
+
+        throw new Error(`Invalid tokenize argument: ${pattern}`);
+    }
+
+    if (regExp.test('')) {
+        throw new Error(`The regular expression of tokenize() matches an empty string: ${pattern}`);
+    }
+
+    if (input === '') {
+        return new SequenceValue([]);
+    }
+
+    // Captured groups are not tokens, unlike with `String.prototype.split()`.
+    const tokens: StringValue[] = [];
+    let lastIndex = 0;
+    let match: RegExpExecArray;
+    regExp.lastIndex = 0;
+    while ((match = regExp.exec(input)) !== null) {
+        tokens.push(new StringValue(input.substring(lastIndex, match.index)));
+        lastIndex = match.index + match[0].length;
+    }
+
+    tokens.push(new StringValue(input.substring(lastIndex)));
+    return new SequenceValue(tokens);
+}
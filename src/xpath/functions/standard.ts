@@ -1,8 +1,9 @@
 import { XNode, xmlValue } from "../../dom";
+import { XPATH_FUNCTIONS_NAMESPACE_URI, XSLT_NAMESPACE_URI } from "../../constants";
 import { ExprContext } from "../expr-context";
 import { XsltDecimalFormatSettings } from "../../xslt/xslt-decimal-format-settings";
-import { BooleanValue, NodeSetValue, NumberValue, StringValue } from "../values";
-import { assert, regExpEscape } from "./internal-functions";
+import { BooleanValue, NodeSetValue, NumberValue, SequenceValue, StringValue } from "../values";
+import { assert, regExpEscape, xPathRegExp } from "./internal-functions";
 
 /* Support functions. They are not exported. */
 
@@ -24,6 +25,29 @@ function cyrb53(str: string, seed = 0) {
     return 4294967296 * (2097151 & h2) + (h1 >>> 0);
 }
 
+/**
+ * Resolves the prefix of a QName given as a string, like `xsl:version`.
+ * Without a namespace declaration, the `xsl` prefix is taken as the XSLT
+ * namespace, like elements of the stylesheet are.
+ * @param context The Expression Context, with the namespaces of the stylesheet.
+ * @param qName The QName.
+ * @returns The namespace URI (null without prefix) and the local name.
+ */
+function resolveQName(context: ExprContext, qName: string): { namespaceUri: string; localName: string } {
+    const separator = qName.indexOf(':');
+    if (separator < 0) {
+        return { namespaceUri: null, localName: qName };
+    }
+
+    const prefix = qName.substring(0, separator);
+    let namespaceUri = context.knownNamespaces[prefix];
+    if (namespaceUri === undefined && prefix === 'xsl') {
+        namespaceUri = XSLT_NAMESPACE_URI;
+    }
+
+    return { namespaceUri, localName: qName.substring(separator + 1) };
+}
+
 // Exported functions.
 // In theory none of the `this.args` should work here,
 // but `this` is replaced on `FunctionCallExpr.evaluate()`
@@ -58,6 +82,10 @@ export function contains(context: ExprContext) {
 export function count(context: ExprContext) {
     assert(this.args.length === 1);
     const v = this.args[0].evaluate(context);
+    if (v instanceof SequenceValue) {
+        return new NumberValue(v.value.length);
+    }
+
     return new NumberValue(v.nodeSetValue().length);
 }
 
@@ -66,6 +94,51 @@ export function current(context: ExprContext) {
     return new NodeSetValue([context.nodeList[context.position]]);
 }
 
+/**
+ * XSLT 1.0 `document()` function: returns the root nodes of the documents
+ * at the given URIs. If the first argument is a node-set, the string value
+ * of each of its nodes is a URI, relative to the document of that node;
+ * otherwise, the URI is relative to the stylesheet. The optional second
+ * argument is a node-set whose first node gives the base URI instead.
+ * `document('')` returns the stylesheet itself.
+ * @param context The Expression Context.
+ * @returns The root nodes of the documents.
+ */
+export function document(context: ExprContext): NodeSetValue {
+    assert(this.args.length === 1 || this.args.length === 2);
+    if (!context.documentResolver) {
+        throw new Error('document() is only available in XSLT transformations.');
+    }
+
+    const value = this.args[0].evaluate(context);
+    const baseNode: XNode = this.args.length === 2 ? this.args[1].evaluate(context).nodeSetValue()[0] : undefined;
+    const references: { uri: string; baseNode: XNode }[] = value.type === 'node-set' ?
+        value.nodeSetValue().map((node: XNode) => ({ uri: xmlValue(node), baseNode: baseNode || node })) :
+        [{ uri: value.stringValue(), baseNode }];
+
+    const documents: XNode[] = [];
+    for (const reference of references) {
+        const document = context.documentResolver(context, reference.uri, reference.baseNode);
+        if (!documents.includes(document)) {
+            documents.push(document);
+        }
+    }
+
+    return new NodeSetValue(documents);
+}
+
+/**
+ * XSLT 1.0 `element-available()` function: whether the processor implements
+ * the instruction of the given name, like `xsl:number`.
+ * @param context The Expression Context.
+ * @returns Whether the instruction is available.
+ */
+export function elementAvailable(context: ExprContext): BooleanValue {
+    assert(this.args.length === 1);
+    const { namespaceUri, localName } = resolveQName(context, this.args[0].evaluate(context).stringValue());
+    return new BooleanValue(!!context.elementAvailable && context.elementAvailable(namespaceUri, localName));
+}
+
 export function endsWith(context: ExprContext) {
     assert(this.args.length === 2);
     const s0 = this.args[0].evaluate(context).stringValue();
@@ -209,6 +282,30 @@ export function floor(context: ExprContext) {
     return new NumberValue(Math.floor(num));
 }
 
+/**
+ * XSLT 1.0 `function-available()` function: whether a function of the given
+ * name can be called, including the extension functions and the stylesheet
+ * functions. The optional second argument of XSLT 2.0 is the arity of
+ * stylesheet functions.
+ * @param context The Expression Context.
+ * @returns Whether the function is available.
+ */
+export function functionAvailable(context: ExprContext): BooleanValue {
+    assert(this.args.length === 1 || this.args.length === 2);
+    const name = this.args[0].evaluate(context).stringValue();
+    const { namespaceUri, localName } = resolveQName(context, name);
+    // Built-in functions have no prefix, or one bound to the namespace of the XPath functions.
+    if (
+        (namespaceUri === null || namespaceUri === XPATH_FUNCTIONS_NAMESPACE_URI) &&
+        Object.prototype.hasOwnProperty.call(this.xPathFunctions, localName)
+    ) {
+        return new BooleanValue(true);
+    }
+
+    const arity = this.args.length === 2 ? this.args[1].evaluate(context).numberValue() : undefined;
+    return new BooleanValue(!!namespaceUri && !!context.functionResolver?.(namespaceUri, localName, arity));
+}
+
 export function generateId(context: ExprContext) {
     return new StringValue(
         'A' + cyrb53(
@@ -244,6 +341,28 @@ export function id(context: ExprContext) {
     return new NodeSetValue(ret);
 }
 
+/**
+ * XSLT 1.0 `key()` function: returns the nodes of the context document
+ * indexed by `<xsl:key>` declarations under the given name. If the value
+ * is a node-set, the result is the union of the lookups of the string
+ * value of each of its nodes.
+ * @param context The Expression Context.
+ * @returns The nodes found, in document order.
+ */
+export function key(context: ExprContext): NodeSetValue {
+    assert(this.args.length === 2);
+    const name = this.args[0].evaluate(context).stringValue();
+    const value = this.args[1].evaluate(context);
+    if (!context.keyResolver) {
+        throw new Error('key() is only available in XSLT transformations.');
+    }
+
+    const values: string[] = value.type === 'node-set' ?
+        value.nodeSetValue().map((node: XNode) => xmlValue(node)) :
+        [value.stringValue()];
+    return new NodeSetValue(context.keyResolver(context, name, values));
+}
+
 export function lang(context: ExprContext) {
     assert(this.args.length === 1);
     const lang = this.args[0].evaluate(context).stringValue();
@@ -290,17 +409,15 @@ export function matches(context: ExprContext) {
     assert(this.args.length >= 2);
     const s0 = this.args[0].evaluate(context).stringValue();
     const s1 = this.args[1].evaluate(context).stringValue();
-    let s2: string;
-    if (this.args.length > 2) {
-        s2 = this.args[2].evaluate(context).stringValue();
-        if (/[^mi]/.test(s2)) {
-            throw new Error(`Invalid regular expression syntax: ${s2}`);
-        }
-    }
+    const s2 = this.args.length > 2 ? this.args[2].evaluate(context).stringValue() : '';
     let re: RegExp;
     try {
-        re = new RegExp(s1, s2);
+        re = xPathRegExp(s1, s2);
     } catch (e) {
+        if (!(e instanceof SyntaxError)) {
+            throw e;
+        }
+
         throw new Error(`Invalid matches argument: ${s1}`);
     }
     return new BooleanValue(re.test(s0));
@@ -453,7 +570,12 @@ export function substringBefore(context: ExprContext) {
 
 export function sum(context: ExprContext) {
     assert(this.args.length === 1);
-    const n = this.args[0].evaluate(context).nodeSetValue();
+    const v = this.args[0].evaluate(context);
+    if (v instanceof SequenceValue) {
+        return new NumberValue(v.atomize().reduce((total, item) => total + item.numberValue(), 0));
+    }
+
+    const n = v.nodeSetValue();
     let sum = 0;
     for (let i = 0; i < n.length; ++i) {
         sum += parseInt(xmlValue(n[i])) - 0;
@@ -461,6 +583,32 @@ export function sum(context: ExprContext) {
     return new NumberValue(sum);
 }
 
+/**
+ * XSLT 1.0 `system-property()` function: `xsl:version`, `xsl:vendor` and
+ * `xsl:vendor-url`. Other properties are empty strings.
+ * @param context The Expression Context.
+ * @returns The value of the property.
+ */
+export function systemProperty(context: ExprContext): NumberValue | StringValue {
+    assert(this.args.length === 1);
+    const { namespaceUri, localName } = resolveQName(context, this.args[0].evaluate(context).stringValue());
+    if (namespaceUri !== XSLT_NAMESPACE_URI) {
+        return new StringValue('');
+    }
+
+    switch (localName) {
+        case 'version':
+            // The version the stylesheet is processed with.
+            return new NumberValue(Number(context.xsltVersion));
+        case 'vendor':
+            return new StringValue('Design Liquido');
+        case 'vendor-url':
+            return new StringValue('https://github.com/DesignLiquido/xslt-processor');
+        default:
+            return new StringValue('');
+    }
+}
+
 export function translate(context: ExprContext) {
     assert(this.args.length === 3);
     let s0 = this.args[0].evaluate(context).stringValue();
@@ -484,15 +632,10 @@ export function xmlToJson(context: ExprContext) {
 }
 
 export function stringJoin(context: ExprContext) {
-    let output = [];
-
-    for (let i = 0; i < this.args.length - 1; i++) {
-        const entry = this.args[i];
-
-        output.push(entry.evaluate(context).stringValue());
-    }
-
-    return output.join(this.args[this.args.length - 1]);
+    assert(this.args.length === 1 || this.args.length === 2);
+    const items = new SequenceValue(SequenceValue.itemsOf(this.args[0].evaluate(context))).atomize();
+    const separator = this.args.length > 1 ? this.args[1].evaluate(context).stringValue() : '';
+    return new StringValue(items.map((item) => item.stringValue()).join(separator));
 }
 
 export function replace(context: ExprContext) {
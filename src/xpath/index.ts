@@ -1,3 +1,4 @@
 export * from './expr-context';
 export * from './xpath';
+export * from './xpath-sort-key';
 export * from './xpath-token-rule';
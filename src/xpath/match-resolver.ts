@@ -1,7 +1,10 @@
+import { DOM_ELEMENT_NODE } from "../constants";
 import { XNode } from "../dom";
 import { ExprContext } from "./expr-context";
 import { LocationExpr, UnionExpr } from "./expressions";
 import { Expression } from "./expressions/expression";
+import { NodeTestName, NodeTestNC, NodeTestPI } from "./node-tests";
+import { xPathAxis } from "./tokens";
 
 /**
  * Class that resolves XPath expressions, returning nodes.
@@ -27,6 +30,51 @@ export class MatchResolver {
         return [];
     }
 
+    /**
+     * Splits a pattern in its alternatives, the operands of `|`.
+     * Each alternative of a template rule pattern has its own default priority.
+     * @param expression The parsed pattern.
+     * @returns The alternatives, in the order they are written.
+     */
+    patternAlternatives(expression: Expression): Expression[] {
+        if (expression instanceof UnionExpr) {
+            return this.patternAlternatives(expression.expr1).concat(this.patternAlternatives(expression.expr2));
+        }
+
+        return [expression];
+    }
+
+    /**
+     * Computes the default priority of a pattern alternative, as described in
+     * section 5.5 of the XSLT 1.0 specification. A single child or attribute
+     * step without predicates has priority `0` for a name or
+     * `processing-instruction('target')`, `-0.25` for `prefix:*` and `-0.5`
+     * for any other node test. Any other pattern has priority `0.5`.
+     * @param expression The pattern alternative.
+     * @returns The default priority.
+     */
+    defaultPriority(expression: Expression): number {
+        if (!(expression instanceof LocationExpr) || expression.absolute || expression.steps.length !== 1) {
+            return 0.5;
+        }
+
+        const step = expression.steps[0];
+        const simpleAxes: string[] = [xPathAxis.CHILD, xPathAxis.ATTRIBUTE, xPathAxis.SELF_AND_SIBLINGS];
+        if (step.predicate.length > 0 || !simpleAxes.includes(step.axis)) {
+            return 0.5;
+        }
+
+        if (step.nodeTest instanceof NodeTestName || (step.nodeTest instanceof NodeTestPI && step.nodeTest.target)) {
+            return 0;
+        }
+
+        if (step.nodeTest instanceof NodeTestNC) {
+            return -0.25;
+        }
+
+        return -0.5;
+    }
+
     /**
      * Resolves a `LocationExpr`.
      * @param expression The Location Expression.
@@ -96,7 +144,7 @@ export class MatchResolver {
      * @returns The list of found nodes.
      */
     private absoluteXsltMatch(expression: LocationExpr, context: ExprContext): XNode[] {
-        const firstChildOfRoot = context.root.childNodes.find(c => c.nodeName !== '#dtd-section');
+        const firstChildOfRoot = context.root.childNodes.find(c => c.nodeType === DOM_ELEMENT_NODE);
         const clonedContext = context.clone([firstChildOfRoot], undefined, 0, undefined);
         const matchedNodes = expression.evaluate(clonedContext).nodeSetValue();
         const finalList = [];
@@ -105,7 +153,7 @@ export class MatchResolver {
         // considered.
         let nodeList: XNode[];
         if (context.nodeList.length === 1 && context.nodeList[0].nodeName === '#document') {
-            nodeList = [context.nodeList[0].childNodes.find(c => c.nodeName !== '#dtd-section')];
+            nodeList = [context.nodeList[0].childNodes.find(c => c.nodeType === DOM_ELEMENT_NODE)];
         } else {
             nodeList = context.nodeList;
         }
@@ -140,7 +188,7 @@ export class MatchResolver {
             // As we don't work with the #document node directly, this part
             // returns its first sibling.
             // By the way, it should be *always* one sibling here.
-            return [nodes[0].childNodes[0]];
+            return [nodes[0].childNodes.find(c => c.nodeType === DOM_ELEMENT_NODE)];
         }
 
         return nodes;
@@ -15,6 +15,9 @@
 //   - `BooleanValue`
 //   - `NodeSetValue`
 //
+// XPath 2.0 adds `SequenceValue`, an ordered list of nodes and atomic
+// values, as built by the comma operator.
+//
 // The common interface of the value classes consists of methods that
 // implement the XPath type coercion rules:
 //
@@ -28,4 +31,5 @@ export * from './boolean-value';
 export * from './node-set-value';
 export * from './node-value';
 export * from './number-value';
+export * from './sequence-value';
 export * from './string-value';
@@ -0,0 +1,105 @@
+import { DOM_TEXT_NODE } from "../../constants";
+import { XNode, xmlValue } from "../../dom";
+import { NodeSetValue } from "./node-set-value";
+import { NodeValue } from "./node-value";
+import { StringValue } from "./string-value";
+
+/**
+ * An item of an XPath 2.0 sequence: a node, or an atomic value.
+ */
+export type SequenceItem = XNode | NodeValue;
+
+export class SequenceValue implements NodeValue {
+    value: SequenceItem[];
+    type: string;
+
+    constructor(value: SequenceItem[]) {
+        this.value = value;
+        this.type = 'sequence';
+    }
+
+    /**
+     * Returns the items of any value: the nodes of a node-set, the items
+     * of a sequence, or the value itself for an atomic value.
+     * @param value The value.
+     * @returns The items.
+     */
+    static itemsOf(value: NodeValue): SequenceItem[] {
+        if (value instanceof SequenceValue) {
+            return value.value;
+        }
+
+        if (value instanceof NodeSetValue) {
+            return value.nodeSetValue();
+        }
+
+        return [value];
+    }
+
+    /**
+     * Atomizes the sequence: nodes are replaced by their string value.
+     * @returns The atomic values.
+     */
+    atomize(): NodeValue[] {
+        return this.value.map((item) => {
+            if (item instanceof XNode) {
+                return new StringValue(xmlValue(item));
+            }
+
+            return item;
+        });
+    }
+
+    /**
+     * Returns the items as context nodes, for predicates and `xsl:for-each`:
+     * atomic values become text nodes without a parent, so `.` is their
+     * string value.
+     * @returns The nodes.
+     */
+    contextNodes(): XNode[] {
+        return this.value.map((item) => {
+            if (item instanceof XNode) {
+                return item;
+            }
+
+            return new XNode(DOM_TEXT_NODE, '#text', item.stringValue(), null);
+        });
+    }
+
+    // As for node-sets, the string and number values are the ones of the first item.
+    stringValue(): string {
+        const atomized = this.atomize();
+        return atomized.length > 0 ? atomized[0].stringValue() : '';
+    }
+
+    // The effective boolean value: a sequence starting with a node is true,
+    // and a single atomic value converts as usual.
+    booleanValue() {
+        if (this.value.length === 0) {
+            return false;
+        }
+
+        if (this.value[0] instanceof XNode) {
+            return true;
+        }
+
+        if (this.value.length > 1) {
+            throw new Error('The effective boolean value of a sequence of several atomic values is not defined.');
+        }
+
+        return (this.value[0] as NodeValue).booleanValue();
+    }
+
+    numberValue() {
+        const atomized = this.atomize();
+        return atomized.length > 0 ? atomized[0].numberValue() : NaN;
+    }
+
+    nodeSetValue(): XNode[] {
+        if (!this.value.every((item) => item instanceof XNode)) {
+            throw this;
+        }
+
+        return this.value as XNode[];
+    }
+}
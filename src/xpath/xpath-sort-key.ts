@@ -0,0 +1,16 @@
+import { Expression } from './expressions/expression';
+
+/**
+ * A sort key of `xPathSort`, as given by an `<xsl:sort>` element.
+ *
+ * @property {Expression} expr: The expression whose value is the sort key of each node.
+ * @property {string} type: Whether the keys are compared as strings (`text`) or as numbers (`number`).
+ * @property {string} order: `ascending` or `descending`.
+ * @property {function} compare: How `text` keys are compared. Without it, they are compared by code point.
+ */
+export type XPathSortKey = {
+    expr: Expression;
+    type: 'text' | 'number';
+    order: 'ascending' | 'descending';
+    compare?: (a: string, b: string) => number;
+};
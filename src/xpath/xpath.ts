@@ -47,6 +47,7 @@ import {
     NumberExpr,
     PathExpr,
     PredicateExpr,
+    SequenceExpr,
     StepExpr,
     TokenExpr,
     UnaryMinusExpr,
@@ -119,6 +120,7 @@ import {
 
 import { GrammarRuleCandidate } from './grammar-rule-candidate';
 import { XPathTokenRule } from './xpath-token-rule';
+import { XPathSortKey } from './xpath-sort-key';
 import { XNode } from '../dom';
 import { NodeTestAny, NodeTestElementOrAttribute, NodeTestNC, NodeTestName, NodeTestText, NodeTestComment, NodeTestPI, NodeTest } from './node-tests';
 import { DOM_ATTRIBUTE_NODE } from '../constants';
@@ -181,15 +183,21 @@ export class XPath {
         [XPathNodeTest, [TOK_NCNAME, TOK_COLON, TOK_ASTERISK], 33, this.makeNodeTestExpr2],
         [XPathNodeTest, [TOK_QNAME], 33, this.makeNodeTestExpr3],
         [XPathNodeTest, [TOK_NODEO, TOK_PARENC], 33, this.makeNodeTestExpr4],
-        [XPathNodeTest, [TOK_NODEO, XPathLiteral, TOK_PARENC], 33, this.makeNodeTestExpr5],
+        // The literal of `processing-instruction('target')` is reduced to an
+        // expression before the closing parenthesis is shifted.
+        [XPathNodeTest, [TOK_NODEO, XPathExpr, TOK_PARENC], 33, this.makeNodeTestExpr5],
 
         [XPathPredicate, [TOK_BRACKO, XPathExpr, TOK_BRACKC], 33, this.makePredicateExpr],
 
         [XPathPrimaryExpr, [XPathVariableReference], 33, this.passExpr],
         [XPathPrimaryExpr, [TOK_PARENO, XPathExpr, TOK_PARENC], 33, this.makePrimaryExpr],
+        // XPath 2.0 sequences, like `(1, 2)` and `()`. Function calls have longer
+        // patterns, so they are matched first.
+        [XPathPrimaryExpr, [TOK_PARENO, XPathExpr, XPathArgumentRemainder, Q_1M, TOK_PARENC], 33, this.makeSequenceExpr1],
+        [XPathPrimaryExpr, [TOK_PARENO, TOK_PARENC], 33, this.makeSequenceExpr2],
         [XPathPrimaryExpr, [XPathLiteral], 30, this.passExpr],
         [XPathPrimaryExpr, [XPathNumber], 30, this.passExpr],
-        [XPathPrimaryExpr, [XPathFunctionCall], 31, this.passExpr],
+        [XPathPrimaryExpr, [XPathFunctionCall], 33, this.passExpr],
 
         [XPathFunctionCall, [TOK_QNAME, TOK_PARENO, TOK_PARENC], -1, this.makeFunctionCallExpr1],
         [
@@ -378,8 +386,8 @@ export class XPath {
     }
 
     makeNodeTestExpr5(typeo: any, target: any) {
-        const type = typeo.replace(/\s*\($/, '');
-        if (type != 'processing-instruction') {
+        const type = typeo.value.replace(/\s*\($/, '');
+        if (type != 'processing-instruction' || !(target instanceof LiteralExpr)) {
             throw type;
         }
         return new NodeTestPI(target.value);
@@ -406,6 +414,14 @@ export class XPath {
         return ret;
     }
 
+    makeSequenceExpr1(pareno: any, expr: any, exprs: any) {
+        return new SequenceExpr([expr].concat(exprs));
+    }
+
+    makeSequenceExpr2() {
+        return new SequenceExpr([]);
+    }
+
     makeArgumentExpr(comma: any, expr: any) {
         return expr;
     }
@@ -684,6 +700,11 @@ export class XPath {
             rule = TOK_QNAME;
         }
 
+        // Special case: the prefix of a `prefix:*` name test is not a QName.
+        if (rule == TOK_QNAME && expression.substr(match.length).startsWith(':*')) {
+            rule = TOK_NCNAME;
+        }
+
         return { rule, match };
     }
 
@@ -874,6 +895,17 @@ export class XPath {
 
         this.xPathLog(`stack: ${this.stackToString(stack)}`);
 
+        // The comma operator of XPath 2.0, outside parentheses, leaves the
+        // first operand and the others as argument remainders.
+        if (
+            stack.length > 1 &&
+            stack[0].tag == XPathExpr &&
+            stack.slice(1).every((candidate) => candidate.tag == XPathArgumentRemainder)
+        ) {
+            const sequence = new SequenceExpr(stack.map((candidate) => candidate.expr));
+            stack.splice(0, stack.length, { ...stack[0], expr: sequence });
+        }
+
         // DGF any valid XPath should "reduce" to a single Expr token
         if (stack.length !== 1) {
             throw `XPath parse error ${cachekey}:\n${this.stackToString(stack)}`;
@@ -991,9 +1023,9 @@ export class XPath {
     /**
      * Utility function to sort a list of nodes. Used by xsltSort().
      * @param context The Expression Context.
-     * @param sort TODO
+     * @param sort The sort keys, in order of importance.
      */
-    xPathSort(context: ExprContext, sort: any[]) {
+    xPathSort(context: ExprContext, sort: XPathSortKey[]) {
         if (sort.length === 0) {
             return;
         }
@@ -1002,36 +1034,10 @@ export class XPath {
 
         for (let i = 0; i < context.contextSize(); ++i) {
             const node = context.nodeList[i];
-            const sortItem = {
+            sortList.push({
                 node,
-                key: []
-            };
-            const clonedContext = context.clone([node], undefined, 0, undefined);
-
-            for (const s of sort) {
-                const value = s.expr.evaluate(clonedContext);
-
-                let evalue: any;
-                if (s.type === 'text') {
-                    evalue = value.stringValue();
-                } else if (s.type === 'number') {
-                    evalue = value.numberValue();
-                }
-                sortItem.key.push({
-                    value: evalue,
-                    order: s.order
-                });
-            }
-
-            // Make the sort stable by adding a lowest priority sort by
-            // id. This is very convenient and furthermore required by the
-            // spec ([XSLT] - Section 10 Sorting).
-            sortItem.key.push({
-                value: i,
-                order: 'ascending'
+                key: this.xPathSortKey(context.clone([node], undefined, 0, undefined), sort, i)
             });
-
-            sortList.push(sortItem);
         }
 
         sortList.sort(this.xPathSortByKey);
@@ -1047,6 +1053,42 @@ export class XPath {
         context.setNode(0);
     }
 
+    /**
+     * Evaluates the sort key of an item, for `xPathSortByKey`.
+     * @param context The Expression Context of the item.
+     * @param sort The sort criteria, as in `xPathSort`.
+     * @param index The position of the item in the unsorted list.
+     * @returns The sort key.
+     */
+    xPathSortKey(context: ExprContext, sort: XPathSortKey[], index: number): any[] {
+        const key = [];
+        for (const s of sort) {
+            const value = s.expr.evaluate(context);
+
+            let evalue: any;
+            if (s.type === 'text') {
+                evalue = value.stringValue();
+            } else if (s.type === 'number') {
+                evalue = value.numberValue();
+            }
+            key.push({
+                value: evalue,
+                order: s.order,
+                compare: s.type === 'text' ? s.compare : undefined
+            });
+        }
+
+        // Make the sort stable by adding a lowest priority sort by
+        // id. This is very convenient and furthermore required by the
+        // spec ([XSLT] - Section 10 Sorting).
+        key.push({
+            value: index,
+            order: 'ascending'
+        });
+
+        return key;
+    }
+
     // Sorts by all order criteria defined. According to the JavaScript
     // spec ([ECMA] Section 11.8.5), the compare operators compare strings
     // as strings and numbers as numbers.
@@ -1060,11 +1102,31 @@ export class XPath {
 
         for (let i = 0; i < v1.key.length; ++i) {
             const o = v1.key[i].order == 'descending' ? -1 : 1;
-            if (v1.key[i].value > v2.key[i].value) {
+            const value1 = v1.key[i].value;
+            const value2 = v2.key[i].value;
+            if (v1.key[i].compare) {
+                const result = v1.key[i].compare(value1, value2);
+                if (result !== 0) {
+                    return Math.sign(result) * o;
+                }
+
+                continue;
+            }
+
+            // In ascending order, NaN precedes all other numbers ([XSLT] - Section 10).
+            if (Number.isNaN(value1) || Number.isNaN(value2)) {
+                if (Number.isNaN(value1) && Number.isNaN(value2)) {
+                    continue;
+                }
+
+                return (Number.isNaN(value1) ? -1 : 1) * o;
+            }
+
+            if (value1 > value2) {
                 return +1 * o;
             }
 
-            if (v1.key[i].value < v2.key[i].value) {
+            if (value1 < value2) {
                 return -1 * o;
             }
         }
@@ -1,3 +1,5 @@
+export * from './xslt-element-handler';
 export * from './xslt-options';
 export * from './xslt-parameter';
+export * from './xslt-termination-error';
 export * from './xslt';
@@ -0,0 +1,25 @@
+/**
+ * The Unicode codepoint collation of XPath 2.0, which compares strings
+ * by the code points of their characters.
+ */
+export const codepointCollationUri = 'http://www.w3.org/2005/xpath-functions/collation/codepoint';
+
+function compareCodepoints(a: string, b: string): number {
+    if (a < b) {
+        return -1;
+    }
+
+    if (a > b) {
+        return 1;
+    }
+
+    return 0;
+}
+
+/**
+ * The collations always available to `<xsl:sort collation="...">`,
+ * by URI. More can be registered with the `collations` option.
+ */
+export const defaultCollations: { [uri: string]: (a: string, b: string) => number } = {
+    [codepointCollationUri]: compareCodepoints
+};
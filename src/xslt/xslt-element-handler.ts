@@ -0,0 +1,16 @@
+import { XNode } from '../dom';
+import { ExprContext } from '../xpath';
+
+/**
+ * How an element of the XSLT namespace is processed by `xsltProcessContext`.
+ *
+ * @property {boolean} instruction: Whether the element is an instruction, as reported by `element-available()`.
+ * @property {boolean} declaration: Whether the element is a top-level declaration. In forwards-compatible
+ * mode, the top-level XSLT elements that are not declarations are ignored.
+ * @property {function} process: Runs the element, in the current input context.
+ */
+export type XsltElementHandler = {
+    instruction?: boolean;
+    declaration?: boolean;
+    process: (context: ExprContext, template: XNode, output?: XNode) => void;
+};
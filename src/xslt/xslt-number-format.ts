@@ -0,0 +1,131 @@
+/**
+ * Formatting of the numbers generated by `<xsl:number>`, as described in
+ * section 7.7.1 of the XSLT 1.0 specification.
+ */
+export type XsltNumberFormatSettings = {
+    format: string;
+    letterValue?: 'alphabetic' | 'traditional';
+    groupingSeparator?: string;
+    groupingSize?: number;
+};
+
+const romanNumerals: [number, string][] = [
+    [1000, 'm'],
+    [900, 'cm'],
+    [500, 'd'],
+    [400, 'cd'],
+    [100, 'c'],
+    [90, 'xc'],
+    [50, 'l'],
+    [40, 'xl'],
+    [10, 'x'],
+    [9, 'ix'],
+    [5, 'v'],
+    [4, 'iv'],
+    [1, 'i']
+];
+
+/* Support functions. They are not exported. */
+
+function isAlphanumeric(character: string): boolean {
+    return /[\p{L}\p{N}]/u.test(character);
+}
+
+function toRoman(value: number): string {
+    let result = '';
+    for (const [numeral, letters] of romanNumerals) {
+        while (value >= numeral) {
+            result += letters;
+            value -= numeral;
+        }
+    }
+
+    return result;
+}
+
+function toAlphabetic(value: number, firstLetter: string): string {
+    const start = firstLetter.charCodeAt(0);
+    let result = '';
+    while (value > 0) {
+        value--;
+        result = String.fromCharCode(start + (value % 26)) + result;
+        value = Math.floor(value / 26);
+    }
+
+    return result;
+}
+
+function groupDigits(digits: string, separator: string, size: number): string {
+    let result = '';
+    for (let i = digits.length; i > 0; i -= size) {
+        const group = digits.substring(Math.max(0, i - size), i);
+        result = result ? group + separator + result : group;
+    }
+
+    return result;
+}
+
+/**
+ * Formats a single number with a format token.
+ * @param value The number, a non-negative integer.
+ * @param token The format token, like `1`, `01`, `a`, `A`, `i` or `I`.
+ * @param settings The format settings.
+ * @returns The formatted number.
+ */
+function formatToken(value: number, token: string, settings: XsltNumberFormatSettings): string {
+    if (value > 0 && (token === 'i' || token === 'I') && settings.letterValue !== 'alphabetic') {
+        const roman = toRoman(value);
+        return token === 'I' ? roman.toUpperCase() : roman;
+    }
+
+    if (value > 0 && /^[aAiI]$/.test(token)) {
+        return toAlphabetic(value, token === 'a' || token === 'i' ? 'a' : 'A');
+    }
+
+    // Tokens like `1`, `01` or `001` give the minimum width of the number.
+    // Any other token falls back to `1`.
+    const width = /^0*1$/.test(token) ? token.length : 1;
+    let digits = String(value);
+    while (digits.length < width) {
+        digits = `0${digits}`;
+    }
+
+    if (settings.groupingSeparator && settings.groupingSize > 0) {
+        digits = groupDigits(digits, settings.groupingSeparator, settings.groupingSize);
+    }
+
+    return digits;
+}
+
+/**
+ * Converts a list of numbers to a string, according to the format of
+ * `<xsl:number>`. The format is split into alphanumeric tokens, used
+ * in order for each number (the last one being repeated), and the
+ * separators between them. Leading and trailing separators are
+ * copied as prefix and suffix.
+ * @param numbers The numbers.
+ * @param settings The format settings.
+ * @returns The formatted list of numbers.
+ */
+export function xsltFormatNumberList(numbers: number[], settings: XsltNumberFormatSettings): string {
+    const parts = (settings.format || '1').match(/[\p{L}\p{N}]+|[^\p{L}\p{N}]+/gu) || [];
+    const prefix = parts.length > 0 && !isAlphanumeric(parts[0][0]) ? parts.shift() : '';
+    const suffix = parts.length > 0 && !isAlphanumeric(parts[parts.length - 1][0]) ? parts.pop() : '';
+    const tokens = parts.filter((_, i) => i % 2 === 0);
+    const separators = parts.filter((_, i) => i % 2 === 1);
+    if (tokens.length === 0) {
+        tokens.push('1');
+    }
+
+    let result = prefix;
+    for (let i = 0; i < numbers.length; i++) {
+        const tokenIndex = Math.min(i, tokens.length - 1);
+        if (i > 0) {
+            result += separators[tokenIndex - 1] || '.';
+        }
+
+        result += formatToken(numbers[i], tokens[tokenIndex], settings);
+    }
+
+    return result + suffix;
+}
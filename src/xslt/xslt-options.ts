@@ -1,7 +1,18 @@
+import { XDocument } from "../dom";
 import { XsltParameter } from "./xslt-parameter"
 
 export type XsltOptions = {
     escape: boolean,
     selfClosingTags: boolean,
-    parameters?: XsltParameter[]
+    parameters?: XsltParameter[],
+    stylesheetResolver?: (href: string) => XDocument | string,
+    documentResolver?: (uri: string) => XDocument | string,
+    onMessage?: (message: string, terminate: boolean) => void,
+    onWarning?: (message: string) => void,
+    collations?: { [uri: string]: (a: string, b: string) => number },
+    indent?: boolean,
+    indentWidth?: number,
+    indentChar?: string,
+    maxFunctionDepth?: number,
+    onResultDocument?: (href: string, content: string) => void
 }
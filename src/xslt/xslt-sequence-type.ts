@@ -0,0 +1,97 @@
+import { XNode, xmlValue } from '../dom';
+import { DOM_ATTRIBUTE_NODE, DOM_DOCUMENT_NODE } from '../constants';
+import { BooleanValue, NodeSetValue, NodeValue, NumberValue, SequenceItem, SequenceValue, StringValue } from '../xpath/values';
+
+const nodeTypes = /^(node|element|attribute|text|comment|processing-instruction|document-node)\(.*\)$/;
+
+const numericTypes = ['xs:integer', 'xs:decimal', 'xs:double', 'xs:float', 'xs:numeric'];
+
+const stringTypes = ['xs:string', 'xs:anyURI', 'xs:untypedAtomic'];
+
+/**
+ * Converts a value to the sequence type of an `as` attribute, like the
+ * `xsl:param` and the result of `xsl:function` declare them: nodes are
+ * checked, and atomic types are cast from the string value of each item.
+ * A temporary tree stands for the nodes it contains, unless a document
+ * node is expected.
+ * @param value The value.
+ * @param sequenceType The sequence type, as in `xs:integer` or `element()*`.
+ * Without it, the value is returned as it is.
+ * @param description What the value is, for error messages.
+ * @returns The converted value.
+ */
+export function xsltConvertToSequenceType(value: NodeValue, sequenceType: string | undefined, description: string): NodeValue {
+    if (!sequenceType) {
+        return value;
+    }
+
+    const occurrence = /[?*+]$/.test(sequenceType) ? sequenceType[sequenceType.length - 1] : '';
+    const itemType = sequenceType.substring(0, sequenceType.length - occurrence.length).trim();
+    if (itemType === 'item()') {
+        return value;
+    }
+
+    let items = SequenceValue.itemsOf(value);
+    if (items.length === 1 && items[0] instanceof XNode && items[0].nodeType === DOM_DOCUMENT_NODE && itemType !== 'document-node()') {
+        const tree = items[0] as XNode;
+        // For atomic types, the text of the tree is atomized as a whole.
+        if (nodeTypes.test(itemType)) {
+            items = tree.transformedChildNodes.filter((n) => n.nodeType !== DOM_ATTRIBUTE_NODE);
+        }
+    }
+
+    const count = items.length;
+    if ((count === 0 && (occurrence === '' || occurrence === '+')) || (count > 1 && (occurrence === '' || occurrence === '?'))) {
+        throw new Error(`Expected ${sequenceType} for ${description}, but got ${count} items.`);
+    }
+
+    if (nodeTypes.test(itemType)) {
+        const atomic = items.find((item) => !(item instanceof XNode)) as NodeValue;
+        if (atomic) {
+            throw new Error(`Expected ${sequenceType} for ${description}, but got "${atomic.stringValue()}".`);
+        }
+
+        return new NodeSetValue(items);
+    }
+
+    const values = items.map((item) => xsltCastAtomic(item, itemType, sequenceType, description));
+    return values.length === 1 ? values[0] : new SequenceValue(values);
+}
+
+/**
+ * Casts an item to an atomic type, from its string value.
+ * @param item The item.
+ * @param itemType The atomic type, as in `xs:integer`.
+ * @param sequenceType The sequence type, for error messages.
+ * @param description What the value is, for error messages.
+ * @returns The atomic value.
+ */
+function xsltCastAtomic(item: SequenceItem, itemType: string, sequenceType: string, description: string): NodeValue {
+    const text = item instanceof XNode ? xmlValue(item) : item.stringValue();
+    if (stringTypes.includes(itemType)) {
+        return new StringValue(text);
+    }
+
+    if (numericTypes.includes(itemType)) {
+        const number = item instanceof NumberValue ? item.numberValue() : Number(text.trim() || NaN);
+        if (Number.isNaN(number) || (itemType === 'xs:integer' && !Number.isInteger(number))) {
+            throw new Error(`Expected ${sequenceType} for ${description}, but got "${text}".`);
+        }
+
+        return new NumberValue(number);
+    }
+
+    if (itemType === 'xs:boolean') {
+        if (!(item instanceof XNode) && !(item instanceof StringValue)) {
+            return new BooleanValue(item.booleanValue());
+        }
+
+        if (!['true', 'false', '1', '0'].includes(text.trim())) {
+            throw new Error(`Expected ${sequenceType} for ${description}, but got "${text}".`);
+        }
+
+        return new BooleanValue(['true', '1'].includes(text.trim()));
+    }
+
+    throw new Error(`The type ${sequenceType} of ${description} is not supported.`);
+}
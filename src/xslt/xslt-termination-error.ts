@@ -0,0 +1,12 @@
+/**
+ * Error thrown when an `<xsl:message terminate="yes">` stops the
+ * transformation. The error message is the text of the `<xsl:message>`.
+ */
+export class XsltTerminationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'XsltTerminationError';
+        // Keeps `instanceof` working when compiled to ES5.
+        Object.setPrototypeOf(this, XsltTerminationError.prototype);
+    }
+}
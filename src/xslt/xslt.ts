@@ -8,6 +8,8 @@
 //
 // Original author: Steffen Meschkat <mesch@google.com>
 
+import he from 'he';
+
 import {
     XDocument,
     XNode,
@@ -17,6 +19,7 @@ import {
     domCreateComment,
     domCreateDocumentFragment,
     domCreateElement,
+    domCreateProcessingInstruction,
     domCreateTextNode,
     domCreateTransformedTextNode,
     domGetAttributeValue,
@@ -24,9 +27,10 @@ import {
     xmlGetAttribute,
     xmlTransformedText,
     xmlValue,
-    xmlValue2
+    xmlValue2,
+    XmlParser
 } from '../dom';
-import { ExprContext, XPath } from '../xpath';
+import { ExprContext, XPath, XPathSortKey } from '../xpath';
 
 import {
     DOM_ATTRIBUTE_NODE,
@@ -35,13 +39,24 @@ import {
     DOM_DOCUMENT_FRAGMENT_NODE,
     DOM_DOCUMENT_NODE,
     DOM_ELEMENT_NODE,
-    DOM_TEXT_NODE
+    DOM_PROCESSING_INSTRUCTION_NODE,
+    DOM_TEXT_NODE,
+    XSLT_NAMESPACE_URI
 } from '../constants';
 
-import { StringValue, NodeSetValue } from '../xpath/values';
+import { StringValue, NodeSetValue, NodeValue, SequenceItem, SequenceValue } from '../xpath/values';
 import { XsltOptions } from './xslt-options';
+import { XsltElementHandler } from './xslt-element-handler';
 import { XsltDecimalFormatSettings } from './xslt-decimal-format-settings';
+import { xsltFormatNumberList } from './xslt-number-format';
+import { XsltTerminationError } from './xslt-termination-error';
+import { xsltConvertToSequenceType } from './xslt-sequence-type';
+import { xPathRegExp } from '../xpath/functions/internal-functions';
+import { defaultCollations } from './xslt-collations';
 import { MatchResolver } from '../xpath/match-resolver';
+import { LocationExpr, PredicateExpr, StepExpr, UnionExpr } from '../xpath/expressions';
+import { xPathAxis } from '../xpath/tokens';
+import { Expression } from '../xpath/expressions/expression';
 
 /**
  * The main class for XSL-T processing. The implementation is NOT
@@ -73,9 +88,142 @@ export class Xslt {
     options: XsltOptions;
     decimalFormatSettings: XsltDecimalFormatSettings;
 
+    /**
+     * Import precedence of each top-level element brought in by `<xsl:import>`.
+     * Higher numbers win. Elements not in this map have precedence 0.
+     */
+    importPrecedences: Map<XNode, number>;
+
+    /**
+     * The lowest import precedence in the import tree of the module of each
+     * top-level element brought in by `<xsl:import>`. The template rules
+     * `<xsl:apply-imports>` can run have a precedence from this one up to,
+     * but not including, the precedence of the current template rule.
+     */
+    importTreeStarts: Map<XNode, number>;
+
+    /**
+     * The namespace declarations of each stylesheet module, by its
+     * `<xsl:stylesheet>` node. The expressions and patterns of a module
+     * resolve their prefixes with the declarations of that module only.
+     */
+    moduleNamespaces: Map<XNode, { [prefix: string]: string }>;
+
+    /**
+     * The top-level nodes of the stylesheet of the current transformation,
+     * with the ones of its imported and included modules merged in. The
+     * stylesheet document itself is not changed.
+     */
+    topLevelNodes: XNode[];
+
+    /**
+     * The alternatives of the pattern of each template rule, with their
+     * priorities, parsed the first time the template rule is tried.
+     */
+    templatePatterns: Map<XNode, { pattern: Expression; priority: number }[]>;
+
+    /**
+     * `<xsl:attribute-set>` declarations, by name, in declaration order.
+     */
+    attributeSets: { [name: string]: XNode[] };
+
+    /**
+     * `<xsl:strip-space>` and `<xsl:preserve-space>` declarations, in declaration order.
+     */
+    whitespaceDeclarations: XNode[];
+
+    /**
+     * `<xsl:namespace-alias>` declarations: the result namespace of literal
+     * result elements and attributes, by their namespace in the stylesheet.
+     */
+    namespaceAliases: { [stylesheetNamespaceUri: string]: { prefix: string; namespaceUri: string } };
+
+    /**
+     * `<xsl:key>` declarations, by key name.
+     */
+    keys: { [name: string]: XNode[] };
+
+    /**
+     * Key indexes, built on the first `key()` call for each document:
+     * the position of every node in document order, and the nodes by
+     * key value, for each key name already used.
+     */
+    keyIndexes: Map<XNode, { positions: Map<XNode, number>; indexes: { [name: string]: Map<string, XNode[]> } }>;
+
+    /**
+     * `<xsl:function>` declarations, by expanded name (`{namespace-uri}local-name`)
+     * and arity.
+     */
+    functions: { [expandedName: string]: { [arity: number]: XNode } };
+
+    /**
+     * The Expression Context of the global variables and parameters of the
+     * current transformation. Stylesheet functions look up their variables
+     * in it, so they see these variables, but not the ones of their caller.
+     */
+    globalContext: ExprContext;
+
+    /**
+     * The number of stylesheet function calls being evaluated, limited
+     * by the `maxFunctionDepth` option.
+     */
+    functionDepth: number;
+
+    /**
+     * The items written by `<xsl:sequence>` directly to the temporary trees
+     * of the stylesheet functions and variables being evaluated, by tree root.
+     */
+    sequenceItems: Map<XNode, SequenceItem[]>;
+
+    /**
+     * Named `<xsl:output>` declarations, only used by the `format` of
+     * `<xsl:result-document>`.
+     */
+    outputFormats: { [name: string]: XNode[] };
+
+    /**
+     * The secondary results of the last transformation, written by
+     * `<xsl:result-document>`: the serialized content, by URI.
+     */
+    resultDocuments: { [href: string]: string };
+
+    /**
+     * Documents loaded by `document()` in the current transformation, by URI.
+     */
+    documentCache: Map<string, XDocument>;
+
+    /**
+     * How `xsltProcessContext` runs each element of the XSLT namespace, by
+     * local name. `element-available()` reports the instructions of this
+     * table. Subclasses implementing more elements should add them here.
+     */
+    elementHandlers: { [localName: string]: XsltElementHandler };
+
+    /**
+     * Whether the stylesheet is processed in forwards-compatible mode, that
+     * is, it declares a version other than 1.0 and 2.0. Unknown instructions then
+     * run their `<xsl:fallback>` children instead of failing, and unknown
+     * top-level declarations are ignored.
+     */
+    forwardsCompatible: boolean;
+
     outputDocument: XDocument;
     outputMethod: 'xml' | 'html' | 'text' | 'name';
     outputOmitXmlDeclaration: string;
+    outputVersion: string;
+    outputEncoding: string;
+    outputStandalone: string;
+    outputDoctypePublic: string;
+    outputDoctypeSystem: string;
+    outputCdataSectionElements: string[];
+    outputIndent: string;
+
+    /**
+     * The media type of the result of the last transformation: the
+     * `media-type` of `<xsl:output>` or, without it, the default media
+     * type of the output method.
+     */
+    outputMediaType: string;
     version: string;
 
     constructor(
@@ -90,10 +238,131 @@ export class Xslt {
         this.options = {
             escape: options.escape === true,
             selfClosingTags: options.selfClosingTags === true,
-            parameters: options.parameters || []
+            parameters: options.parameters || [],
+            stylesheetResolver: options.stylesheetResolver,
+            documentResolver: options.documentResolver,
+            // eslint-disable-next-line no-console
+            onMessage: options.onMessage || ((message: string) => console.log(message)),
+            onWarning: options.onWarning || (() => {}),
+            collations: { ...defaultCollations, ...options.collations },
+            indent: options.indent,
+            indentWidth: options.indentWidth,
+            indentChar: options.indentChar,
+            maxFunctionDepth: options.maxFunctionDepth || 200,
+            onResultDocument: options.onResultDocument
         };
-        this.outputMethod = 'xml';
-        this.outputOmitXmlDeclaration = 'no';
+        this.elementHandlers = {
+            'analyze-string': {
+                instruction: true,
+                process: (context, template, output) => this.xsltAnalyzeString(context, template, output)
+            },
+            'apply-imports': {
+                instruction: true,
+                process: (context, template, output) => this.xsltApplyImports(context, template, output)
+            },
+            'apply-templates': {
+                instruction: true,
+                process: (context, template, output) => this.xsltApplyTemplatesInstruction(context, template, output)
+            },
+            attribute: {
+                instruction: true,
+                process: (context, template, output) => this.xsltAttributeInstruction(context, template, output)
+            },
+            'attribute-set': { declaration: true, process: (_context, template) => this.xsltAttributeSet(template) },
+            'call-template': {
+                instruction: true,
+                process: (context, template, output) => this.xsltCallTemplate(context, template, output)
+            },
+            choose: { instruction: true, process: (context, template, output) => this.xsltChoose(context, template, output) },
+            comment: { instruction: true, process: (context, template, output) => this.xsltComment(context, template, output) },
+            copy: { instruction: true, process: (context, template, output) => this.xsltCopyInstruction(context, template, output) },
+            'copy-of': {
+                instruction: true,
+                process: (context, template, output) => this.xsltCopyOfInstruction(context, template, output)
+            },
+            'decimal-format': { declaration: true, process: (context, template) => this.xsltDecimalFormat(context, template) },
+            element: { instruction: true, process: (context, template) => this.xsltElement(context, template) },
+            // Only run by `xsltFallback`, for instructions that are not implemented.
+            fallback: { instruction: true, process: () => {} },
+            // Registered by `xsltTransformOrStylesheet`, and run by `xsltCallFunction`.
+            function: { declaration: true, process: () => {} },
+            'for-each': { instruction: true, process: (context, template, output) => this.xsltForEach(context, template, output) },
+            'for-each-group': {
+                instruction: true,
+                process: (context, template, output) => this.xsltForEachGroup(context, template, output)
+            },
+            if: { instruction: true, process: (context, template, output) => this.xsltIf(context, template, output) },
+            // Imports and includes are resolved before the stylesheet runs, by `xsltImports`.
+            import: {
+                declaration: true,
+                process: () => {
+                    throw new Error('<xsl:import> is only allowed as a top-level element.');
+                }
+            },
+            include: {
+                declaration: true,
+                process: () => {
+                    throw new Error('<xsl:include> is only allowed as a top-level element.');
+                }
+            },
+            key: { declaration: true, process: (_context, template) => this.xsltKey(template) },
+            // Run by `xsltAnalyzeString`.
+            'matching-substring': {
+                process: () => {
+                    throw new Error('<xsl:matching-substring> is only allowed in <xsl:analyze-string>.');
+                }
+            },
+            message: { instruction: true, process: (context, template) => this.xsltMessage(context, template) },
+            'namespace-alias': { declaration: true, process: (context, template) => this.xsltNamespaceAlias(context, template) },
+            'non-matching-substring': {
+                process: () => {
+                    throw new Error('<xsl:non-matching-substring> is only allowed in <xsl:analyze-string>.');
+                }
+            },
+            number: { instruction: true, process: (context, template, output) => this.xsltNumber(context, template, output) },
+            otherwise: {
+                process: (_context, template) => {
+                    throw `error if here: ${template.localName}`;
+                }
+            },
+            output: { declaration: true, process: (_context, template) => this.xsltOutput(template) },
+            param: { declaration: true, process: (context, template) => this.xsltVariable(context, template, false) },
+            // Read by `xsltTransformOrStylesheet`, before the source document is used.
+            'preserve-space': { declaration: true, process: () => {} },
+            'processing-instruction': {
+                instruction: true,
+                process: (context, template, output) => this.xsltProcessingInstruction(context, template, output)
+            },
+            'result-document': { instruction: true, process: (context, template) => this.xsltResultDocument(context, template) },
+            sequence: { instruction: true, process: (context, template, output) => this.xsltSequence(context, template, output) },
+            sort: { process: (context, template) => this.xsltSort(context, template) },
+            // Read by `xsltTransformOrStylesheet`, before the source document is used.
+            'strip-space': { declaration: true, process: () => {} },
+            stylesheet: { process: (context, template, output) => this.xsltTransformOrStylesheet(template, context, output) },
+            transform: { process: (context, template, output) => this.xsltTransformOrStylesheet(template, context, output) },
+            // Template rules are chosen by `xsltFindTemplateRule`:
+            // here, the rule is instantiated for the current node.
+            template: { declaration: true, process: (context, template, output) => this.xsltChildNodes(context, template, output) },
+            text: { instruction: true, process: (context, template, output) => this.xsltText(context, template, output) },
+            'value-of': { instruction: true, process: (context, template, output) => this.xsltValueOf(context, template, output) },
+            variable: {
+                instruction: true,
+                declaration: true,
+                process: (context, template) => this.xsltVariable(context, template, true)
+            },
+            when: {
+                process: (_context, template) => {
+                    throw new Error(`error if here: ${template.localName}`);
+                }
+            },
+            'with-param': {
+                process: (_context, template) => {
+                    throw new Error(`error if here: ${template.localName}`);
+                }
+            }
+        };
+        this.forwardsCompatible = false;
+        this.xsltResetOutputSettings();
         this.decimalFormatSettings = {
             decimalSeparator: '.',
             groupingSeparator: ',',
@@ -118,6 +387,29 @@ export class Xslt {
         const outputDocument = new XDocument();
         this.outputDocument = outputDocument;
         const expressionContext = new ExprContext([xmlDoc], [outputDocument]);
+        this.attributeSets = {};
+        this.whitespaceDeclarations = [];
+        this.namespaceAliases = {};
+        this.keys = {};
+        this.keyIndexes = new Map();
+        expressionContext.keyResolver = (context, name, values) => this.xsltKeyLookup(context, name, values);
+        this.documentCache = new Map();
+        this.forwardsCompatible = false;
+        expressionContext.elementAvailable = (namespaceUri, localName) => (
+            namespaceUri === XSLT_NAMESPACE_URI && !!this.elementHandlers[localName]?.instruction
+        );
+        expressionContext.documentResolver = (context, uri, baseNode) => this.xsltDocument(context, uri, baseNode, stylesheet);
+        this.functions = {};
+        this.globalContext = expressionContext;
+        this.functionDepth = 0;
+        expressionContext.functionResolver = (namespaceUri, localName, arity) => this.xsltFunction(namespaceUri, localName, arity);
+        this.outputFormats = {};
+        this.resultDocuments = {};
+        this.sequenceItems = new Map();
+        this.templatePatterns = new Map();
+        this.importPrecedences = new Map();
+        this.importTreeStarts = new Map();
+        this.moduleNamespaces = new Map();
 
         if (this.options.parameters.length > 0) {
             for (const parameter of this.options.parameters) {
@@ -125,15 +417,113 @@ export class Xslt {
             }
         }
 
+        this.xsltResetOutputSettings();
         this.xsltProcessContext(expressionContext, stylesheet, this.outputDocument);
-        const transformedOutputXml = xmlTransformedText(outputDocument, {
+        this.xsltNamespaceFixup(outputDocument);
+        this.outputMediaType = this.outputMediaType || this.xsltDefaultMediaType();
+        return this.xsltSerialize(outputDocument);
+    }
+
+    /**
+     * Serializes a result document with the current output settings.
+     * @param document The result document.
+     * @returns The result, as text.
+     */
+    protected xsltSerialize(document: XDocument): string {
+        return xmlTransformedText(document, {
             cData: false,
             escape: this.options.escape,
             selfClosingTags: this.options.selfClosingTags,
-            outputMethod: this.outputMethod
+            outputMethod: this.outputMethod,
+            // For compatibility, the XML declaration is only written when asked for.
+            xmlDeclaration: this.outputOmitXmlDeclaration === 'no' ||
+                (this.outputOmitXmlDeclaration !== 'yes' && !!this.outputStandalone),
+            version: this.outputVersion,
+            encoding: this.outputEncoding,
+            standalone: this.outputStandalone,
+            doctypePublic: this.outputDoctypePublic,
+            doctypeSystem: this.outputDoctypeSystem,
+            cDataSectionElements: this.outputCdataSectionElements,
+            // The `indent` option, when given, overrides `<xsl:output indent>`.
+            indent: this.options.indent === undefined ? this.outputIndent === 'yes' : this.options.indent,
+            indentWidth: this.options.indentWidth,
+            indentChar: this.options.indentChar
         });
+    }
+
+    /**
+     * Sets the output settings to their defaults, before `<xsl:output>`
+     * declarations are read.
+     */
+    protected xsltResetOutputSettings() {
+        this.outputMethod = 'xml';
+        this.outputOmitXmlDeclaration = undefined;
+        this.outputVersion = undefined;
+        this.outputEncoding = undefined;
+        this.outputStandalone = undefined;
+        this.outputDoctypePublic = undefined;
+        this.outputDoctypeSystem = undefined;
+        this.outputCdataSectionElements = [];
+        this.outputMediaType = undefined;
+        this.outputIndent = undefined;
+    }
+
+    /**
+     * Reads the output settings of an `<xsl:output>` declaration, or of
+     * the serialization attributes of `<xsl:result-document>`.
+     * Declarations are merged attribute by attribute: with imports, the
+     * ones of higher precedence come later and override what they set.
+     * @param attribute Returns the value of an attribute, or `undefined`.
+     */
+    protected xsltReadOutputSettings(attribute: (name: string) => string) {
+        this.outputMethod = (attribute('method') as 'xml' | 'html' | 'text' | 'name') || this.outputMethod;
+        this.outputOmitXmlDeclaration = attribute('omit-xml-declaration') || this.outputOmitXmlDeclaration;
+        this.outputVersion = attribute('version') || this.outputVersion;
+        this.outputEncoding = attribute('encoding') || this.outputEncoding;
+        this.outputStandalone = attribute('standalone') || this.outputStandalone;
+        this.outputDoctypePublic = attribute('doctype-public') || this.outputDoctypePublic;
+        this.outputDoctypeSystem = attribute('doctype-system') || this.outputDoctypeSystem;
+        this.outputMediaType = attribute('media-type') || this.outputMediaType;
+        this.outputIndent = attribute('indent') || this.outputIndent;
+        // The elements of all the declarations are combined.
+        this.outputCdataSectionElements = this.outputCdataSectionElements.concat(
+            (attribute('cdata-section-elements') || '').split(/\s+/).filter((name) => name)
+        );
+    }
 
-        return transformedOutputXml;
+    /**
+     * Returns the current output settings, to restore them after
+     * serializing a secondary result.
+     * @returns The output settings, by field name.
+     */
+    protected xsltOutputSettings(): Partial<Xslt> {
+        return {
+            outputMethod: this.outputMethod,
+            outputOmitXmlDeclaration: this.outputOmitXmlDeclaration,
+            outputVersion: this.outputVersion,
+            outputEncoding: this.outputEncoding,
+            outputStandalone: this.outputStandalone,
+            outputDoctypePublic: this.outputDoctypePublic,
+            outputDoctypeSystem: this.outputDoctypeSystem,
+            outputCdataSectionElements: this.outputCdataSectionElements,
+            outputIndent: this.outputIndent,
+            outputMediaType: this.outputMediaType
+        };
+    }
+
+    /**
+     * Returns the default media type of the output method.
+     * @returns The media type.
+     */
+    protected xsltDefaultMediaType(): string {
+        switch (this.outputMethod) {
+            case 'html':
+                return 'text/html';
+            case 'text':
+                return 'text/plain';
+            default:
+                return 'text/xml';
+        }
     }
 
     /**
@@ -143,675 +533,2580 @@ export class Xslt {
      * @param output If set, the output where the transformation should occur.
      */
     protected xsltProcessContext(context: ExprContext, template: XNode, output?: XNode) {
-        if (!this.isXsltElement(template)) {
+        if (template.namespaceUri && this.xsltPrefixListNamespaces(context, template, 'extension-element-prefixes').includes(template.namespaceUri)) {
+            this.xsltFallback(context, template, output);
+        } else if (!this.isXsltElement(template)) {
             this.xsltPassThrough(context, template, output);
         } else {
-            let name: any,
-                top: any,
-                nameExpr: any,
-                node: any,
-                select: any,
-                value: any,
-                nodes: any,
-                mode: any,
-                templates: any,
-                paramContext: any,
-                commentData: any,
-                commentNode: any,
-                test: any,
-                match: any,
-                text: any;
-            switch (template.localName) {
-                case 'apply-imports':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'apply-templates':
-                    select = xmlGetAttribute(template, 'select');
-                    if (select) {
-                        nodes = this.xPath.xPathEval(select, context).nodeSetValue();
-                    } else {
-                        nodes = context.nodeList[context.position].childNodes;
-                    }
-
-                    // TODO: Check why apply-templates was sorting and filing parameters
-                    // automatically.
-                    /* this.xsltWithParam(sortContext, template);
-                    this.xsltSort(sortContext, template); */
-
-                    mode = xmlGetAttribute(template, 'mode');
-                    top = template.ownerDocument.documentElement;
-
-                    templates = [];
-                    for (let element of top.childNodes.filter(
-                        (c: XNode) => c.nodeType == DOM_ELEMENT_NODE && this.isXsltElement(c, 'template')
-                    )) {
-                        // Actual template should be executed.
-                        // `<xsl:apply-templates>` should have an ancestor `<xsl:template>`
-                        // for comparison.
-                        const templateAncestor = template.getAncestorByLocalName('template');
-                        if (templateAncestor === undefined) {
-                            continue;
-                        }
-
-                        if (templateAncestor.id === element.id) {
-                            continue;
-                        }
-
-                        if (!mode || element.getAttributeValue('mode') === mode) {
-                            templates.push(element);
-                        }
-                    }
-
-                    const modifiedContext = context.clone(nodes);
-                    for (let i = 0; i < templates.length; ++i) {
-                        for (let j = 0; j < modifiedContext.contextSize(); ++j) {
-                            // If the current node is text, there's no need to test all the templates
-                            // against it. Just appending it to its parent is fine.
-                            if (modifiedContext.nodeList[j].nodeType === DOM_TEXT_NODE) {
-                                const textNodeContext = context.clone([modifiedContext.nodeList[j]], undefined, 0, undefined);
-                                // TODO: verify if it is okay to pass the own text node as template.
-                                this.commonLogicTextNode(textNodeContext, modifiedContext.nodeList[j], output);
-                            } else {
-                                const clonedContext = modifiedContext.clone(
-                                    [modifiedContext.nodeList[j]],
-                                    undefined,
-                                    // [modifiedContext.nodeList[j].outputNode],
-                                    0,
-                                    undefined
-                                    // 0
-                                );
-                                clonedContext.inApplyTemplates = true;
-                                // The output depth should be restarted, since
-                                // another template is being applied from this point.
-                                clonedContext.outputDepth = 0;
-                                this.xsltProcessContext(clonedContext, templates[i], output);
-                            }
-                        }
-                    }
-
-                    break;
-                case 'attribute':
-                    nameExpr = xmlGetAttribute(template, 'name');
-                    name = this.xsltAttributeValue(nameExpr, context);
-
-                    const documentFragment = domCreateDocumentFragment(this.outputDocument);
-                    this.xsltChildNodes(context, template, documentFragment);
-                    value = xmlValue2(documentFragment);
-
-                    if (output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
-                        domSetTransformedAttribute(output, name, value);
-                    } else {
-                        let sourceNode = context.nodeList[context.position];
-                        let parentSourceNode = sourceNode.parentNode;
-                        let outputNode = sourceNode.outputNode;
-
-                        // At this point, the output node should exist.
-                        // If not, a new node is created.
-                        if (outputNode === null || outputNode === undefined) {
-                            outputNode = new XNode(
-                                sourceNode.nodeType,
-                                sourceNode.nodeName,
-                                sourceNode.nodeValue,
-                                context.outputNodeList[context.outputPosition],
-                                sourceNode.namespaceUri
-                            );
-                            sourceNode.outputNode = outputNode;
-                        }
-
-                        // Corner case:
-                        // It can happen here that we don't have the root node set.
-                        // In this case we need to append a copy of the root
-                        // source node to receive the attribute.
-                        if (outputNode.localName === "#document") {
-                            const sourceRootNode = context.root.childNodes[0];
-                            const newRootNode = domCreateElement(this.outputDocument, sourceRootNode.nodeName);
-                            newRootNode.transformedNodeName = sourceRootNode.nodeName;
-                            newRootNode.transformedLocalName = sourceRootNode.localName;
-                            domAppendTransformedChild(outputNode, newRootNode);
-                            outputNode = newRootNode;
-                            parentSourceNode = newRootNode;
-                        }
+            const handler = this.elementHandlers[template.localName];
+            if (handler) {
+                handler.process(context, template, output);
+            } else {
+                this.xsltFallback(context, template, output);
+            }
+        }
+    }
 
-                        // If the parent transformation is something like `xsl:element`, we should
-                        // add a copy of the attribute to this element.
-                        domSetTransformedAttribute(output, name, value);
-
-                        // Some operations start by the tag attributes, and not by the tag itself.
-                        // When this is the case, the output node is not set yet, so
-                        // we add the transformed attributes into the original tag.
-                        if (parentSourceNode && parentSourceNode.outputNode) {
-                            domSetTransformedAttribute(parentSourceNode.outputNode, name, value);
-                        } else {
-                            domSetTransformedAttribute(parentSourceNode, name, value);
-                        }
-                    }
+    /**
+     * Implements `xsl:apply-templates`: applies the template rules of the
+     * mode to the selected nodes, sorted by the `xsl:sort` children.
+     * @param context The Expression Context.
+     * @param template The `<xsl:apply-templates>` node.
+     * @param output The output.
+     */
+    protected xsltApplyTemplatesInstruction(context: ExprContext, template: XNode, output: XNode) {
+        const select = xmlGetAttribute(template, 'select');
+        let nodes: XNode[];
+        if (select) {
+            nodes = this.xPath.xPathEval(select, context).nodeSetValue();
+        } else {
+            nodes = context.nodeList[context.position].childNodes.filter(
+                (n: XNode) => n.nodeType !== DOM_ATTRIBUTE_NODE
+            );
+        }
 
-                    break;
-                case 'attribute-set':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'call-template':
-                    name = xmlGetAttribute(template, 'name');
-                    top = template.ownerDocument.documentElement;
-
-                    paramContext = context.clone();
-                    this.xsltWithParam(paramContext, template);
-
-                    for (let i = 0; i < top.childNodes.length; ++i) {
-                        let childNode = top.childNodes[i];
-                        if (
-                            childNode.nodeType === DOM_ELEMENT_NODE &&
-                            this.isXsltElement(childNode, 'template') &&
-                            domGetAttributeValue(childNode, 'name') == name
-                        ) {
-                            this.xsltChildNodes(paramContext, childNode, output);
-                            break;
-                        }
-                    }
-                    break;
-                case 'choose':
-                    this.xsltChoose(context, template, output);
-                    break;
-                case 'comment':
-                    node = domCreateDocumentFragment(this.outputDocument);
-                    this.xsltChildNodes(context, template, node);
-                    commentData = xmlValue(node);
-                    commentNode = domCreateComment(this.outputDocument, commentData);
-                    output.appendChild(commentNode);
-                    break;
-                case 'copy':
-                    const destinationCopyNode = output || context.outputNodeList[context.outputPosition];
-                    node = this.xsltCopy(destinationCopyNode, context.nodeList[context.position]);
-                    if (node) {
-                        this.xsltChildNodes(context, template, node);
-                    }
-                    break;
-                case 'copy-of':
-                    select = xmlGetAttribute(template, 'select');
-                    value = this.xPath.xPathEval(select, context);
-                    const destinationNode = output || context.outputNodeList[context.outputPosition];
-                    if (value.type === 'node-set') {
-                        nodes = value.nodeSetValue();
-                        for (let i = 0; i < nodes.length; ++i) {
-                            this.xsltCopyOf(destinationNode, nodes[i]);
-                        }
-                    } else {
-                        let node = domCreateTextNode(this.outputDocument, value.stringValue());
-                        domAppendChild(destinationNode, node);
-                    }
-                    break;
-                case 'decimal-format':
-                    name = xmlGetAttribute(template, 'name');
-                    const decimalSeparator = xmlGetAttribute(template, 'decimal-separator');
-                    const groupingSeparator = xmlGetAttribute(template, 'grouping-separator');
-                    const infinity = xmlGetAttribute(template, 'infinity');
-                    const minusSign = xmlGetAttribute(template, 'minus-sign');
-                    const naN = xmlGetAttribute(template, 'NaN');
-                    const percent = xmlGetAttribute(template, 'percent');
-                    const perMille = xmlGetAttribute(template, 'per-mille');
-                    const zeroDigit = xmlGetAttribute(template, 'zero-digit');
-                    const digit = xmlGetAttribute(template, 'digit');
-                    const patternSeparator = xmlGetAttribute(template, 'pattern-separator');
-                    this.decimalFormatSettings = {
-                        name: name || this.decimalFormatSettings.name,
-                        decimalSeparator: decimalSeparator || this.decimalFormatSettings.decimalSeparator,
-                        groupingSeparator: groupingSeparator || this.decimalFormatSettings.groupingSeparator,
-                        infinity: infinity || this.decimalFormatSettings.infinity,
-                        minusSign: minusSign || this.decimalFormatSettings.minusSign,
-                        naN: naN || this.decimalFormatSettings.naN,
-                        percent: percent || this.decimalFormatSettings.percent,
-                        perMille: perMille || this.decimalFormatSettings.perMille,
-                        zeroDigit: zeroDigit || this.decimalFormatSettings.zeroDigit,
-                        digit: digit || this.decimalFormatSettings.digit,
-                        patternSeparator: patternSeparator || this.decimalFormatSettings.patternSeparator
-                    };
-                    context.decimalFormatSettings = this.decimalFormatSettings;
-                    break;
-                case 'element':
-                    nameExpr = xmlGetAttribute(template, 'name');
-                    name = this.xsltAttributeValue(nameExpr, context);
-                    node = domCreateElement(this.outputDocument, name);
+        const sortContext = context.clone(nodes, undefined, 0);
+        this.xsltSort(sortContext, template, context);
+
+        // Parameters are evaluated once, for the current node.
+        const paramContext = context.clone();
+        paramContext.variables = {};
+        this.xsltWithParam(paramContext, template);
+
+        const mode = xmlGetAttribute(template, 'mode');
+        this.xsltApplyTemplates(
+            context,
+            sortContext.nodeList,
+            this.xsltTemplateRules(mode),
+            output,
+            paramContext.variables
+        );
+    }
 
-                    node.transformedNodeName = name;
+    /**
+     * Implements `xsl:attribute`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:attribute>` node.
+     * @param output The output.
+     */
+    protected xsltAttributeInstruction(context: ExprContext, template: XNode, output: XNode) {
+        const nameExpr = xmlGetAttribute(template, 'name');
+        const name = this.xsltResolveName(context, template, this.xsltAttributeValue(nameExpr, context), true);
 
-                    domAppendTransformedChild(context.outputNodeList[context.outputPosition], node);
-                    const clonedContext = context.clone(undefined, [node], undefined, 0);
-                    this.xsltChildNodes(clonedContext, template, node);
-                    break;
-                case 'fallback':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'for-each':
-                    this.xsltForEach(context, template, output);
-                    break;
-                case 'if':
-                    test = xmlGetAttribute(template, 'test');
-                    if (this.xPath.xPathEval(test, context).booleanValue()) {
-                        this.xsltChildNodes(context, template, output);
-                    }
-                    break;
-                case 'import':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'include':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'key':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'message':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'namespace-alias':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'number':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'otherwise':
-                    throw `error if here: ${template.localName}`;
-                case 'output':
-                    this.outputMethod = (xmlGetAttribute(template, 'method') as 'xml' | 'html' | 'text' | 'name');
-                    this.outputOmitXmlDeclaration = xmlGetAttribute(template, 'omit-xml-declaration');
-                    break;
-                case 'param':
-                    this.xsltVariable(context, template, false);
-                    break;
-                case 'preserve-space':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'processing-instruction':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'sort':
-                    this.xsltSort(context, template);
-                    break;
-                case 'strip-space':
-                    throw new Error(`not implemented: ${template.localName}`);
-                case 'stylesheet':
-                case 'transform':
-                    this.xsltTransformOrStylesheet(template, context, output);
-                    break;
-                case 'template':
-                    // If `<xsl:template>` is executed outside `<xsl:apply-templates>`,
-                    // only one match is accepted per level (or per context here).
-                    if (!context.inApplyTemplates && context.baseTemplateMatched) {
-                        break;
-                    }
+        const documentFragment = domCreateDocumentFragment(this.outputDocument);
+        this.xsltChildNodes(context, template, documentFragment);
+        const value = xmlValue2(documentFragment);
 
-                    match = xmlGetAttribute(template, 'match');
-                    if (!match) break;
+        if (output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
+            this.xsltSetAttribute(output, name, value);
+        } else {
+            let sourceNode = context.nodeList[context.position];
+            let parentSourceNode = sourceNode.parentNode;
+            let outputNode = sourceNode.outputNode;
+
+            // At this point, the output node should exist.
+            // If not, a new node is created.
+            if (outputNode === null || outputNode === undefined) {
+                outputNode = new XNode(
+                    sourceNode.nodeType,
+                    sourceNode.nodeName,
+                    sourceNode.nodeValue,
+                    context.outputNodeList[context.outputPosition],
+                    sourceNode.namespaceUri
+                );
+                sourceNode.outputNode = outputNode;
+            }
 
-                    // XPath doesn't have an axis to select "self and siblings", and
-                    // the default axis is "child", so to select the correct children
-                    // in relative path, we force a 'self-and-siblings' axis.
-                    nodes = this.xsltMatch(match, context, 'self-and-siblings');
-                    if (nodes.length > 0) {
-                        if (!context.inApplyTemplates) {
-                            context.baseTemplateMatched = true;
-                        }
+            // Corner case:
+            // It can happen here that we don't have the root node set.
+            // In this case we need to append a copy of the root
+            // source node to receive the attribute.
+            if (outputNode.localName === "#document") {
+                const sourceRootNode = context.root.childNodes.find((c) => c.nodeType === DOM_ELEMENT_NODE);
+                const newRootNode = domCreateElement(this.outputDocument, sourceRootNode.nodeName);
+                newRootNode.transformedNodeName = sourceRootNode.nodeName;
+                newRootNode.transformedLocalName = sourceRootNode.localName;
+                domAppendTransformedChild(outputNode, newRootNode);
+                outputNode = newRootNode;
+                parentSourceNode = newRootNode;
+            }
 
-                        const templateContext = context.clone(nodes, undefined, 0);
-                        this.xsltChildNodes(templateContext, template, output);
-                    }
-                    break;
-                case 'text':
-                    text = xmlValue(template);
-                    node = domCreateTransformedTextNode(this.outputDocument, text);
-                    const disableOutputEscaping = template.childNodes.filter(
-                        (a) => a.nodeType === DOM_ATTRIBUTE_NODE && a.nodeName === 'disable-output-escaping'
-                    );
-                    if (disableOutputEscaping.length > 0 && disableOutputEscaping[0].nodeValue === 'yes') {
-                        node.escape = false;
-                    }
-                    const destinationTextNode = output || context.outputNodeList[context.outputPosition];
-                    destinationTextNode.appendTransformedChild(node);
-                    break;
-                case 'value-of':
-                    select = xmlGetAttribute(template, 'select');
-                    const attribute = this.xPath.xPathEval(select, context);
-                    value = attribute.stringValue();
-                    node = domCreateTransformedTextNode(this.outputDocument, value);
-                    node.siblingPosition = context.nodeList[context.position].siblingPosition;
-
-                    if (output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
-                        output.appendTransformedChild(node);
-                    } else {
-                        context.outputNodeList[context.outputPosition].appendTransformedChild(node);
-                    }
+            // If the parent transformation is something like `xsl:element`, we should
+            // add a copy of the attribute to this element.
+            this.xsltSetAttribute(output, name, value);
 
-                    break;
-                case 'variable':
-                    this.xsltVariable(context, template, true);
-                    break;
-                case 'when':
-                    throw new Error(`error if here: ${template.localName}`);
-                case 'with-param':
-                    throw new Error(`error if here: ${template.localName}`);
-                default:
-                    throw new Error(`error if here: ${template.localName}`);
+            // Some operations start by the tag attributes, and not by the tag itself.
+            // When this is the case, the output node is not set yet, so
+            // we add the transformed attributes into the original tag.
+            if (parentSourceNode && parentSourceNode.outputNode) {
+                this.xsltSetAttribute(parentSourceNode.outputNode, name, value);
+            } else {
+                this.xsltSetAttribute(parentSourceNode, name, value);
             }
         }
     }
 
     /**
-     * Implements `xsl:choose`, its child nodes `xsl:when`, and
-     * `xsl:otherwise`.
+     * Implements the `xsl:attribute-set` declaration.
+     * @param template The `<xsl:attribute-set>` node.
+     */
+    protected xsltAttributeSet(template: XNode) {
+        const name = xmlGetAttribute(template, 'name');
+        if (!name) {
+            throw new Error('<xsl:attribute-set> requires the "name" attribute.');
+        }
+
+        // Declarations sharing a name are merged when the set is used.
+        this.attributeSets[name] = (this.attributeSets[name] || []).concat(template);
+    }
+
+    /**
+     * Implements `xsl:call-template`.
      * @param context The Expression Context.
-     * @param template The template.
+     * @param template The `<xsl:call-template>` node.
      * @param output The output.
      */
-    protected xsltChoose(context: ExprContext, template: XNode, output: any) {
-        for (const childNode of template.childNodes) {
-            if (childNode.nodeType !== DOM_ELEMENT_NODE) {
-                continue;
-            }
+    protected xsltCallTemplate(context: ExprContext, template: XNode, output: XNode) {
+        const name = xmlGetAttribute(template, 'name');
 
-            if (this.isXsltElement(childNode, 'when')) {
-                const test = xmlGetAttribute(childNode, 'test');
-                if (this.xPath.xPathEval(test, context).booleanValue()) {
-                    this.xsltChildNodes(context, childNode, output);
-                    break;
-                }
-            } else if (this.isXsltElement(childNode, 'otherwise')) {
-                this.xsltChildNodes(context, childNode, output);
+        const paramContext = context.clone();
+        this.xsltWithParam(paramContext, template);
+
+        for (let i = 0; i < this.topLevelNodes.length; ++i) {
+            let childNode = this.topLevelNodes[i];
+            if (
+                childNode.nodeType === DOM_ELEMENT_NODE &&
+                this.isXsltElement(childNode, 'template') &&
+                domGetAttributeValue(childNode, 'name') == name
+            ) {
+                paramContext.knownNamespaces = this.xsltModuleNamespaces(context, childNode);
+                this.xsltChildNodes(paramContext, childNode, output);
                 break;
             }
         }
     }
 
     /**
-     * Implements `xsl:copy` for all node types.
-     * @param {XNode} destination the node being copied to, part of output document.
-     * @param {XNode} source the node being copied, part in input document.
-     * @returns {XNode|null} If an element node was created, the element node. Otherwise, null.
+     * Implements `xsl:comment`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:comment>` node.
+     * @param output The output.
      */
-    protected xsltCopy(destination: XNode, source: XNode): XNode {
-        if (source.nodeType == DOM_ELEMENT_NODE) {
-            let node = domCreateElement(this.outputDocument, source.nodeName);
-            node.transformedNodeName = source.nodeName;
-            if (source.namespaceUri !== null && source.namespaceUri !== undefined) {
-                domSetTransformedAttribute(node, 'xmlns', source.namespaceUri);
-            }
-            domAppendTransformedChild(destination, node);
-            return node;
-        }
+    protected xsltComment(context: ExprContext, template: XNode, output: XNode) {
+        const node = domCreateDocumentFragment(this.outputDocument);
+        this.xsltChildNodes(context, template, node);
+        const commentData = xmlValue(node);
+        const commentNode = domCreateComment(this.outputDocument, commentData);
+        output.appendChild(commentNode);
+    }
 
-        if (source.nodeType == DOM_TEXT_NODE) {
-            let node = domCreateTransformedTextNode(this.outputDocument, source.nodeValue);
-            domAppendTransformedChild(destination, node);
-        } else if (source.nodeType == DOM_CDATA_SECTION_NODE) {
-            let node = domCreateCDATASection(this.outputDocument, source.nodeValue);
-            domAppendTransformedChild(destination, node);
-        } else if (source.nodeType == DOM_COMMENT_NODE) {
-            let node = domCreateComment(this.outputDocument, source.nodeValue);
-            domAppendTransformedChild(destination, node);
-        } else if (source.nodeType == DOM_ATTRIBUTE_NODE) {
-            domSetTransformedAttribute(destination, source.nodeName, source.nodeValue);
+    /**
+     * Implements `xsl:copy`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:copy>` node.
+     * @param output The output.
+     */
+    protected xsltCopyInstruction(context: ExprContext, template: XNode, output: XNode) {
+        const destinationCopyNode = output || context.outputNodeList[context.outputPosition];
+        const node = this.xsltCopy(destinationCopyNode, context.nodeList[context.position]);
+        if (node) {
+            this.xsltUseAttributeSets(context, xmlGetAttribute(template, 'use-attribute-sets'), node);
+            this.xsltChildNodes(context, template, node);
         }
-
-        return null;
     }
 
     /**
-     * Implements `xsl:copy-of` for node-set values of the select
-     * expression. Recurses down the source node tree, which is part of
-     * the input document.
-     * @param {XNode} destination the node being copied to, part of output document.
-     * @param {XNode} source the node being copied, part in input document.
+     * Implements `xsl:copy-of`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:copy-of>` node.
+     * @param output The output.
      */
-    protected xsltCopyOf(destination: XNode, source: XNode): void {
-        if (source.nodeType == DOM_DOCUMENT_FRAGMENT_NODE || source.nodeType == DOM_DOCUMENT_NODE) {
-            for (let i = 0; i < source.childNodes.length; ++i) {
-                this.xsltCopyOf(destination, source.childNodes[i]);
+    protected xsltCopyOfInstruction(context: ExprContext, template: XNode, output: XNode) {
+        const select = xmlGetAttribute(template, 'select');
+        const value = this.xPath.xPathEval(select, context);
+        const destinationNode =
+            output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE
+                ? output
+                : context.outputNodeList[context.outputPosition];
+        if (value instanceof NodeSetValue) {
+            const nodes = value.nodeSetValue();
+            for (let i = 0; i < nodes.length; ++i) {
+                this.xsltCopyOf(destinationNode, nodes[i]);
             }
+        } else if (value instanceof SequenceValue) {
+            this.xsltCopySequence(destinationNode, value.value);
         } else {
-            const node = this.xsltCopy(destination, source);
-            if (node) {
-                // This was an element node -- recurse to attributes and
-                // children.
-                /* for (let i = 0; i < source.attributes.length; ++i) {
-                    this.xsltCopyOf(node, source.attributes[i]);
-                } */
-
-                for (let i = 0; i < source.childNodes.length; ++i) {
-                    this.xsltCopyOf(node, source.childNodes[i]);
-                }
-            }
+            let node = domCreateTextNode(this.outputDocument, value.stringValue());
+            domAppendChild(destinationNode, node);
         }
     }
 
     /**
-     * Implements `xsl:for-each`.
-     * @param input The Expression Context.
-     * @param template The template.
-     * @param output The output.
+     * Implements the `xsl:decimal-format` declaration.
+     * @param context The Expression Context.
+     * @param template The `<xsl:decimal-format>` node.
      */
-    protected xsltForEach(context: ExprContext, template: XNode, output: XNode) {
+    protected xsltDecimalFormat(context: ExprContext, template: XNode) {
+        const name = xmlGetAttribute(template, 'name');
+        const decimalSeparator = xmlGetAttribute(template, 'decimal-separator');
+        const groupingSeparator = xmlGetAttribute(template, 'grouping-separator');
+        const infinity = xmlGetAttribute(template, 'infinity');
+        const minusSign = xmlGetAttribute(template, 'minus-sign');
+        const naN = xmlGetAttribute(template, 'NaN');
+        const percent = xmlGetAttribute(template, 'percent');
+        const perMille = xmlGetAttribute(template, 'per-mille');
+        const zeroDigit = xmlGetAttribute(template, 'zero-digit');
+        const digit = xmlGetAttribute(template, 'digit');
+        const patternSeparator = xmlGetAttribute(template, 'pattern-separator');
+        this.decimalFormatSettings = {
+            name: name || this.decimalFormatSettings.name,
+            decimalSeparator: decimalSeparator || this.decimalFormatSettings.decimalSeparator,
+            groupingSeparator: groupingSeparator || this.decimalFormatSettings.groupingSeparator,
+            infinity: infinity || this.decimalFormatSettings.infinity,
+            minusSign: minusSign || this.decimalFormatSettings.minusSign,
+            naN: naN || this.decimalFormatSettings.naN,
+            percent: percent || this.decimalFormatSettings.percent,
+            perMille: perMille || this.decimalFormatSettings.perMille,
+            zeroDigit: zeroDigit || this.decimalFormatSettings.zeroDigit,
+            digit: digit || this.decimalFormatSettings.digit,
+            patternSeparator: patternSeparator || this.decimalFormatSettings.patternSeparator
+        };
+        context.decimalFormatSettings = this.decimalFormatSettings;
+    }
+
+    /**
+     * Implements `xsl:element`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:element>` node.
+     */
+    protected xsltElement(context: ExprContext, template: XNode) {
+        const nameExpr = xmlGetAttribute(template, 'name');
+        const name = this.xsltResolveName(context, template, this.xsltAttributeValue(nameExpr, context), false);
+        const node = this.outputDocument.createElementNS(name.namespaceUri, name.qualifiedName);
+
+        node.transformedNodeName = name.qualifiedName;
+        node.transformedLocalName = name.localName;
+        domAppendTransformedChild(context.outputNodeList[context.outputPosition], node);
+        if (name.prefix !== 'xml') {
+            this.xsltDeclareNamespace(node, name.prefix || '', name.namespaceUri);
+        }
+
+        this.xsltUseAttributeSets(context, xmlGetAttribute(template, 'use-attribute-sets'), node);
+
+        const clonedContext = context.clone(undefined, [node], undefined, 0);
+        this.xsltChildNodes(clonedContext, template, node);
+    }
+
+    /**
+     * Implements `xsl:if`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:if>` node.
+     * @param output The output.
+     */
+    protected xsltIf(context: ExprContext, template: XNode, output: XNode) {
+        const test = xmlGetAttribute(template, 'test');
+        if (this.xPath.xPathEval(test, context).booleanValue()) {
+            this.xsltChildNodes(context, template, output);
+        }
+    }
+
+    /**
+     * Implements the `xsl:key` declaration.
+     * @param template The `<xsl:key>` node.
+     */
+    protected xsltKey(template: XNode) {
+        const name = xmlGetAttribute(template, 'name');
+        if (!name || !xmlGetAttribute(template, 'match') || !xmlGetAttribute(template, 'use')) {
+            throw new Error('<xsl:key> requires the "name", "match" and "use" attributes.');
+        }
+
+        // Declarations sharing a name are combined.
+        this.keys[name] = (this.keys[name] || []).concat(template);
+    }
+
+    /**
+     * Implements the `xsl:output` declaration. Named output formats are
+     * only used by `xsl:result-document`.
+     * @param template The `<xsl:output>` node.
+     */
+    protected xsltOutput(template: XNode) {
+        const name = xmlGetAttribute(template, 'name');
+        if (name) {
+            this.outputFormats[name] = (this.outputFormats[name] || []).concat(template);
+            return;
+        }
+
+        this.xsltReadOutputSettings((attributeName) => xmlGetAttribute(template, attributeName));
+    }
+
+    /**
+     * Implements `xsl:text`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:text>` node.
+     * @param output The output.
+     */
+    protected xsltText(context: ExprContext, template: XNode, output: XNode) {
+        const text = xmlValue(template);
+        const node = domCreateTransformedTextNode(this.outputDocument, text);
+        const disableOutputEscaping = template.childNodes.filter(
+            (a) => a.nodeType === DOM_ATTRIBUTE_NODE && a.nodeName === 'disable-output-escaping'
+        );
+        if (disableOutputEscaping.length > 0 && disableOutputEscaping[0].nodeValue === 'yes') {
+            node.escape = false;
+        }
+        const destinationTextNode = output || context.outputNodeList[context.outputPosition];
+        destinationTextNode.appendTransformedChild(node);
+    }
+
+    /**
+     * Implements `xsl:value-of`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:value-of>` node.
+     * @param output The output.
+     */
+    protected xsltValueOf(context: ExprContext, template: XNode, output: XNode) {
         const select = xmlGetAttribute(template, 'select');
-        const nodes = this.xPath.xPathEval(select, context).nodeSetValue();
-        if (nodes.length === 0) {
+        const attribute = this.xPath.xPathEval(select, context);
+        // All the items of a sequence are written, as in XSLT 2.0.
+        const separator = this.xsltAttributeValue(xmlGetAttribute(template, 'separator') ?? ' ', context);
+        const value = attribute instanceof SequenceValue ?
+            attribute.atomize().map((item) => item.stringValue()).join(separator) :
+            attribute.stringValue();
+        const node = domCreateTransformedTextNode(this.outputDocument, value);
+
+        if (output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
+            output.appendTransformedChild(node);
+        } else {
+            context.outputNodeList[context.outputPosition].appendTransformedChild(node);
+        }
+    }
+
+    /**
+     * Implements `xsl:apply-imports`: applies to the current node the best
+     * matching template rule of lower import precedence than the template
+     * rule being executed, in the same mode.
+     * @param context The Expression Context.
+     * @param template The `<xsl:apply-imports>` node.
+     * @param output The output.
+     */
+    protected xsltApplyImports(context: ExprContext, template: XNode, output: XNode) {
+        const currentTemplate = template.getAncestorByLocalName('template');
+        if (currentTemplate === undefined || !xmlGetAttribute(currentTemplate, 'match')) {
+            throw new Error('<xsl:apply-imports> can only be used inside a template rule.');
+        }
+
+        // Only the template rules imported into the module of the current
+        // template rule, directly or indirectly, are candidates.
+        const precedence = this.xsltImportPrecedence(currentTemplate);
+        const importTreeStart = this.importTreeStarts.get(currentTemplate) || 0;
+        const mode = xmlGetAttribute(currentTemplate, 'mode');
+        const importedTemplates = this.topLevelNodes.filter((c: XNode) => (
+            c.nodeType === DOM_ELEMENT_NODE &&
+            this.isXsltElement(c, 'template') &&
+            xmlGetAttribute(c, 'match') &&
+            xmlGetAttribute(c, 'mode') === mode &&
+            this.xsltImportPrecedence(c) >= importTreeStart &&
+            this.xsltImportPrecedence(c) < precedence
+        ));
+
+        const node = context.nodeList[context.position];
+        const nodeContext = context.clone([node], undefined, 0);
+        nodeContext.variables = {};
+        const importedTemplate = this.xsltFindTemplateRule(nodeContext, importedTemplates);
+        if (importedTemplate) {
+            nodeContext.knownNamespaces = this.xsltModuleNamespaces(context, importedTemplate);
+            // Unlike `<xsl:apply-templates>`, the output depth is kept:
+            // the imported template writes inside the current output node.
+            this.xsltProcessContext(nodeContext, importedTemplate, output);
+        }
+    }
+
+    /**
+     * Applies template rules to a list of nodes. Each node is processed
+     * with its best matching template rule or, when there is none, with
+     * the built-in template rule of the mode.
+     * @param context The Expression Context.
+     * @param nodes The nodes.
+     * @param templates The template rules of the mode, in document order.
+     * @param output The output.
+     * @param parameters The values of the parameters passed to the template rules, by name.
+     */
+    protected xsltApplyTemplates(
+        context: ExprContext,
+        nodes: XNode[],
+        templates: XNode[],
+        output: XNode,
+        parameters: { [name: string]: any } = {}
+    ) {
+        for (let j = 0; j < nodes.length; ++j) {
+            // The position of the node in the list drives `position()` and `last()`.
+            const clonedContext = context.clone(nodes, undefined, j, undefined);
+            // The variables of the template rule are local to it, and
+            // its parameters are the ones passed to it.
+            clonedContext.variables = { ...parameters };
+            const templateRule = this.xsltFindTemplateRule(clonedContext, templates);
+            if (templateRule) {
+                // The output depth should be restarted, since
+                // another template is being applied from this point.
+                clonedContext.outputDepth = 0;
+                clonedContext.knownNamespaces = this.xsltModuleNamespaces(context, templateRule);
+                this.xsltProcessContext(clonedContext, templateRule, output);
+            } else {
+                this.xsltBuiltInTemplateRule(clonedContext, templates, output);
+            }
+        }
+    }
+
+    /**
+     * Applies the built-in template rule to the current node, as described
+     * in section 5.8 of the XSLT 1.0 specification: the root node and
+     * elements have the template rules of the same mode applied to their
+     * children, text nodes and attributes have their value copied, and
+     * comments and processing instructions produce nothing.
+     * @param context The Expression Context, pointing to the current node.
+     * @param templates The template rules of the mode, in document order.
+     * @param output The output.
+     */
+    protected xsltBuiltInTemplateRule(context: ExprContext, templates: XNode[], output: XNode) {
+        const node = context.nodeList[context.position];
+        switch (node.nodeType) {
+            case DOM_DOCUMENT_NODE:
+            case DOM_ELEMENT_NODE:
+                this.xsltApplyTemplates(
+                    context,
+                    node.childNodes.filter((n: XNode) => n.nodeType !== DOM_ATTRIBUTE_NODE),
+                    templates,
+                    output
+                );
+                break;
+            case DOM_TEXT_NODE:
+            case DOM_CDATA_SECTION_NODE:
+            case DOM_ATTRIBUTE_NODE:
+                const textNode = domCreateTransformedTextNode(this.outputDocument, node.nodeValue);
+                if (output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
+                    domAppendTransformedChild(output, textNode);
+                } else {
+                    domAppendTransformedChild(context.outputNodeList[context.outputPosition], textNode);
+                }
+                break;
+            default:
+                break;
+        }
+    }
+
+    /**
+     * Returns the template rules of a mode.
+     * @param mode The mode, or `null` for the default mode.
+     * @returns The `<xsl:template>` nodes with a `match` attribute, in document order.
+     */
+    protected xsltTemplateRules(mode: string): XNode[] {
+        return this.topLevelNodes.filter((c: XNode) => (
+            c.nodeType === DOM_ELEMENT_NODE &&
+            this.isXsltElement(c, 'template') &&
+            xmlGetAttribute(c, 'match') &&
+            xmlGetAttribute(c, 'mode') === mode
+        ));
+    }
+
+    /**
+     * Finds the template rule to apply to the current node, as described
+     * in section 5.5 of the XSLT 1.0 specification: among the matching
+     * template rules, the ones of highest import precedence, then the ones
+     * of highest priority. If several remain, the `onWarning` option is
+     * notified and the last one in document order is chosen.
+     * @param context The Expression Context, pointing to the current node.
+     * @param templates The candidate `<xsl:template>` nodes, in document order.
+     * @returns The template rule, or `undefined` if no template rule matches.
+     */
+    protected xsltFindTemplateRule(context: ExprContext, templates: XNode[]): XNode | undefined {
+        const node = context.nodeList[context.position];
+        let bestTemplates: XNode[] = [];
+        let bestPrecedence: number;
+        let bestPriority: number;
+        for (const template of templates) {
+            const priority = this.xsltTemplatePriority(template, node, context);
+            if (priority === undefined) {
+                continue;
+            }
+
+            const precedence = this.xsltImportPrecedence(template);
+            if (
+                bestTemplates.length === 0 ||
+                precedence > bestPrecedence ||
+                (precedence === bestPrecedence && priority > bestPriority)
+            ) {
+                bestTemplates = [template];
+                bestPrecedence = precedence;
+                bestPriority = priority;
+            } else if (precedence === bestPrecedence && priority === bestPriority) {
+                bestTemplates.push(template);
+            }
+        }
+
+        if (bestTemplates.length > 1) {
+            const patterns = bestTemplates.map((t) => `"${xmlGetAttribute(t, 'match')}"`).join(', ');
+            this.options.onWarning(
+                `Ambiguous template rules for node "${node.nodeName}": ${patterns}. The last one is used.`
+            );
+        }
+
+        return bestTemplates[bestTemplates.length - 1];
+    }
+
+    /**
+     * Returns the priority of a template rule for a node: its `priority`
+     * attribute or, without it, the highest default priority among the
+     * alternatives of its pattern that match the node.
+     * @param template The `<xsl:template>` node.
+     * @param node The node.
+     * @param context The Expression Context.
+     * @returns The priority, or `undefined` if the template rule does not match the node.
+     */
+    private xsltTemplatePriority(template: XNode, node: XNode, context: ExprContext): number | undefined {
+        let patterns = this.templatePatterns.get(template);
+        if (patterns === undefined) {
+            const expression = this.xPath.xPathParse(xmlGetAttribute(template, 'match'));
+            const explicitPriority = xmlGetAttribute(template, 'priority');
+            patterns = this.matchResolver.patternAlternatives(expression).map((pattern) => ({
+                pattern,
+                priority: explicitPriority ? Number(explicitPriority) : this.matchResolver.defaultPriority(pattern)
+            }));
+            this.templatePatterns.set(template, patterns);
+        }
+
+        let patternContext = context;
+        const namespaces = this.xsltModuleNamespaces(context, template);
+        if (namespaces !== context.knownNamespaces) {
+            patternContext = context.clone();
+            patternContext.knownNamespaces = namespaces;
+        }
+
+        let priority: number;
+        for (const alternative of patterns) {
+            if (
+                (priority === undefined || alternative.priority > priority) &&
+                this.xsltMatchesPattern(alternative.pattern, node, patternContext)
+            ) {
+                priority = alternative.priority;
+            }
+        }
+
+        return priority;
+    }
+
+    /**
+     * Implements `xsl:message`: the content is instantiated as text and
+     * sent to the `onMessage` option. With `terminate="yes"`, the
+     * transformation stops with a `XsltTerminationError`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:message>` node.
+     */
+    protected xsltMessage(context: ExprContext, template: XNode) {
+        const documentFragment = domCreateDocumentFragment(this.outputDocument);
+        this.xsltChildNodes(context, template, documentFragment);
+        // Text nodes keep their entity references.
+        const message = he.decode(xmlValue2(documentFragment));
+        const terminate = xmlGetAttribute(template, 'terminate') === 'yes';
+
+        this.options.onMessage(message, terminate);
+        if (terminate) {
+            throw new XsltTerminationError(message);
+        }
+    }
+
+    /**
+     * Implements `xsl:processing-instruction`: the `name` attribute value
+     * template gives the target, and the content, instantiated as text,
+     * gives the data.
+     * @param context The Expression Context.
+     * @param template The `<xsl:processing-instruction>` node.
+     * @param output The output.
+     */
+    protected xsltProcessingInstruction(context: ExprContext, template: XNode, output: XNode) {
+        const target = this.xsltAttributeValue(xmlGetAttribute(template, 'name'), context);
+        if (!/^[^\s:]+$/.test(target) || target.toLowerCase() === 'xml') {
+            throw new Error(`Invalid processing instruction name: "${target}".`);
+        }
+
+        const documentFragment = domCreateDocumentFragment(this.outputDocument);
+        this.xsltChildNodes(context, template, documentFragment);
+        // Text nodes keep their entity references, and the data can't contain the `?>` delimiter.
+        const data = he.decode(xmlValue2(documentFragment)).replace(/\?>/g, '? >').trimStart();
+
+        const node = domCreateProcessingInstruction(this.outputDocument, target, data);
+        if (output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
+            output.appendTransformedChild(node);
+        } else {
+            context.outputNodeList[context.outputPosition].appendTransformedChild(node);
+        }
+    }
+
+    /**
+     * Implements `xsl:number`: inserts a formatted number into the output.
+     * The number is either the value of the `value` attribute, or the
+     * position of the current node in the source tree, depending on
+     * `level`, `count` and `from`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:number>` node.
+     * @param output The output.
+     */
+    protected xsltNumber(context: ExprContext, template: XNode, output: XNode) {
+        const value = xmlGetAttribute(template, 'value');
+        let numbers: number[];
+        if (value) {
+            const number = Math.round(this.xPath.xPathEval(value, context).numberValue());
+            // Numbers that can't be formatted are output as strings, as
+            // the specification allows for this recoverable error.
+            if (!isFinite(number) || number < 0) {
+                this.xsltNumberOutput(context, String(number), output);
+                return;
+            }
+
+            numbers = [number];
+        } else {
+            numbers = this.xsltNumberPositions(context, template);
+        }
+
+        // All the formatting attributes are attribute value templates.
+        const formatAttribute = (name: string): string => {
+            const attributeValue = xmlGetAttribute(template, name);
+            return attributeValue ? this.xsltAttributeValue(attributeValue, context) : undefined;
+        };
+        const letterValue = formatAttribute('letter-value');
+        const groupingSize = formatAttribute('grouping-size');
+        const text = xsltFormatNumberList(numbers, {
+            format: formatAttribute('format') || '1',
+            letterValue: letterValue === 'alphabetic' || letterValue === 'traditional' ? letterValue : undefined,
+            groupingSeparator: formatAttribute('grouping-separator'),
+            groupingSize: groupingSize ? parseInt(groupingSize, 10) : undefined
+        });
+
+        this.xsltNumberOutput(context, text, output);
+    }
+
+    /**
+     * Finds the numbers of the current node for `xsl:number`, according to
+     * the `level`, `count` and `from` attributes.
+     * @param context The Expression Context.
+     * @param template The `<xsl:number>` node.
+     * @returns The list of numbers. Empty if no node is counted.
+     */
+    private xsltNumberPositions(context: ExprContext, template: XNode): number[] {
+        const node = context.nodeList[context.position];
+        const level = xmlGetAttribute(template, 'level') || 'single';
+        const count = xmlGetAttribute(template, 'count');
+        const from = xmlGetAttribute(template, 'from');
+
+        // Without `count`, nodes of the same type and name as the current node are counted.
+        const countExpression = count ? this.xPath.xPathParse(count) : undefined;
+        const isCounted = (n: XNode) => {
+            if (countExpression) {
+                return this.xsltMatchesPattern(countExpression, n, context);
+            }
+
+            return n.nodeType === node.nodeType && n.nodeName === node.nodeName;
+        };
+        const fromExpression = from ? this.xPath.xPathParse(from) : undefined;
+        const isFrom = (n: XNode) => fromExpression !== undefined && this.xsltMatchesPattern(fromExpression, n, context);
+        const siblingNumber = (n: XNode) => {
+            let number = 1;
+            for (let sibling = n.previousSibling; sibling; sibling = sibling.previousSibling) {
+                if (sibling.nodeType !== DOM_ATTRIBUTE_NODE && isCounted(sibling)) {
+                    number++;
+                }
+            }
+
+            return number;
+        };
+
+        switch (level) {
+            case 'single':
+            case 'multiple': {
+                const numbers: number[] = [];
+                for (let n = node; n && !isFrom(n); n = n.parentNode) {
+                    if (isCounted(n)) {
+                        numbers.unshift(siblingNumber(n));
+                        if (level === 'single') {
+                            break;
+                        }
+                    }
+                }
+
+                return numbers;
+            }
+            case 'any': {
+                let number = 0;
+                for (let n = node; n; n = this.xsltPrecedingNode(n)) {
+                    if (isCounted(n)) {
+                        number++;
+                    }
+
+                    if (isFrom(n)) {
+                        break;
+                    }
+                }
+
+                return number > 0 ? [number] : [];
+            }
+            default:
+                throw new Error(`Invalid value for the "level" attribute of <xsl:number>: "${level}".`);
+        }
+    }
+
+    /**
+     * Adds the text generated by `xsl:number` to the output, as `xsl:value-of` does.
+     * @param context The Expression Context.
+     * @param text The text.
+     * @param output The output.
+     */
+    private xsltNumberOutput(context: ExprContext, text: string, output: XNode) {
+        const node = domCreateTransformedTextNode(this.outputDocument, text);
+        if (output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
+            output.appendTransformedChild(node);
+        } else {
+            context.outputNodeList[context.outputPosition].appendTransformedChild(node);
+        }
+    }
+
+    /**
+     * Returns the node before the given one in reverse document order, on
+     * the ancestor or preceding axes. Attributes are skipped, except for
+     * the starting node, which is followed by its owner element.
+     * @param node The node.
+     * @returns The preceding node, or `null` at the document node.
+     */
+    private xsltPrecedingNode(node: XNode): XNode {
+        let previous = node.nodeType === DOM_ATTRIBUTE_NODE ? null : node.previousSibling;
+        if (!previous || previous.nodeType === DOM_ATTRIBUTE_NODE) {
+            return node.parentNode;
+        }
+
+        // The last node in document order inside the previous sibling.
+        let lastChild = previous.lastChild;
+        while (lastChild && lastChild.nodeType !== DOM_ATTRIBUTE_NODE) {
+            previous = lastChild;
+            lastChild = previous.lastChild;
+        }
+
+        return previous;
+    }
+
+    /**
+     * Implements the `use-attribute-sets` attribute of `xsl:element`,
+     * `xsl:copy`, literal result elements and `xsl:attribute-set` itself.
+     * The attributes of each named set are added to the output element, in
+     * order, after the attributes of the sets it uses. The attributes of all
+     * the declarations of a set are merged, later declarations winning.
+     * @param context The Expression Context.
+     * @param names The whitespace-separated names of the attribute sets.
+     * @param outputElement The element receiving the attributes.
+     * @param usingSets The attribute sets being expanded, to detect circular references.
+     */
+    protected xsltUseAttributeSets(context: ExprContext, names: string, outputElement: XNode, usingSets: string[] = []) {
+        if (!names) {
             return;
         }
 
-        // TODO: Why do we need this sort, really?
-        // I have no idea why this logic is here (it was implemented
-        // before Design Liquido taking over), so if it is proven not useful,
-        // this entire logic must be removed.
-        const sortContext = context.clone(nodes);
-        this.xsltSort(sortContext, template);
+        for (const name of names.split(/\s+/).filter((n) => n)) {
+            const declarations = this.attributeSets[name];
+            if (declarations === undefined) {
+                throw new Error(`Attribute set "${name}" is not declared.`);
+            }
+
+            if (usingSets.includes(name)) {
+                throw new Error(`Attribute set "${name}" uses itself, directly or indirectly.`);
+            }
+
+            for (const declaration of declarations) {
+                const declarationContext = context.clone();
+                declarationContext.knownNamespaces = this.xsltModuleNamespaces(context, declaration);
+                this.xsltUseAttributeSets(
+                    declarationContext,
+                    xmlGetAttribute(declaration, 'use-attribute-sets'),
+                    outputElement,
+                    usingSets.concat(name)
+                );
+
+                for (const attribute of declaration.childNodes) {
+                    if (attribute.nodeType !== DOM_ELEMENT_NODE || !this.isXsltElement(attribute, 'attribute')) {
+                        continue;
+                    }
 
-        const nodesWithParent = sortContext.nodeList.filter((n) => n.parentNode !== null && n.parentNode !== undefined);
-        if (nodesWithParent.length <= 0) {
-            throw new Error('Nodes with no parents defined.');
+                    const attributeName = this.xsltAttributeValue(xmlGetAttribute(attribute, 'name'), declarationContext);
+                    const documentFragment = domCreateDocumentFragment(this.outputDocument);
+                    this.xsltChildNodes(declarationContext, attribute, documentFragment);
+                    domSetTransformedAttribute(outputElement, attributeName, xmlValue2(documentFragment));
+                }
+            }
         }
+    }
 
-        // TODO: Removed for now because sortContext can select attributes,
-        // and attributes are separated from child nodes.
-        /* const parent = nodesWithParent[0].parentNode;
-        parent.childNodes = sortContext.nodeList; */
+    /**
+     * Implements `xsl:choose`, its child nodes `xsl:when`, and
+     * `xsl:otherwise`.
+     * @param context The Expression Context.
+     * @param template The template.
+     * @param output The output.
+     */
+    protected xsltChoose(context: ExprContext, template: XNode, output: any) {
+        for (const childNode of template.childNodes) {
+            if (childNode.nodeType !== DOM_ELEMENT_NODE) {
+                continue;
+            }
 
-        for (let i = 0; i < sortContext.contextSize(); ++i) {
-            this.xsltChildNodes(sortContext.clone(sortContext.nodeList, undefined, i), template, output);
+            if (this.isXsltElement(childNode, 'when')) {
+                const test = xmlGetAttribute(childNode, 'test');
+                if (this.xPath.xPathEval(test, context).booleanValue()) {
+                    this.xsltChildNodes(context, childNode, output);
+                    break;
+                }
+            } else if (this.isXsltElement(childNode, 'otherwise')) {
+                this.xsltChildNodes(context, childNode, output);
+                break;
+            }
         }
     }
 
     /**
-     * Orders the current node list in the input context according to the
-     * sort order specified by xsl:sort child nodes of the current
-     * template node. This happens before the operation specified by the
-     * current template node is executed.
-     * @param context The expression context.
-     * @param template The template node.
-     * @todo case-order is not implemented.
+     * Implements `xsl:copy` for all node types.
+     * @param {XNode} destination the node being copied to, part of output document.
+     * @param {XNode} source the node being copied, part in input document.
+     * @returns {XNode|null} If an element node was created, the element node. Otherwise, null.
      */
-    protected xsltSort(context: ExprContext, template: XNode) {
-        const sort: any[] = [];
+    protected xsltCopy(destination: XNode, source: XNode): XNode {
+        if (source.nodeType == DOM_ELEMENT_NODE) {
+            // The namespace fixup declares the namespace of the copy.
+            let node = this.outputDocument.createElementNS(source.namespaceUri, source.nodeName);
+            node.transformedNodeName = source.nodeName;
+            domAppendTransformedChild(destination, node);
+            return node;
+        }
+
+        if (source.nodeType == DOM_TEXT_NODE) {
+            let node = domCreateTransformedTextNode(this.outputDocument, source.nodeValue);
+            domAppendTransformedChild(destination, node);
+        } else if (source.nodeType == DOM_CDATA_SECTION_NODE) {
+            let node = domCreateCDATASection(this.outputDocument, source.nodeValue);
+            domAppendTransformedChild(destination, node);
+        } else if (source.nodeType == DOM_COMMENT_NODE) {
+            let node = domCreateComment(this.outputDocument, source.nodeValue);
+            domAppendTransformedChild(destination, node);
+        } else if (source.nodeType == DOM_PROCESSING_INSTRUCTION_NODE) {
+            let node = domCreateProcessingInstruction(this.outputDocument, source.nodeName, source.nodeValue);
+            domAppendTransformedChild(destination, node);
+        } else if (source.nodeType == DOM_ATTRIBUTE_NODE) {
+            domSetTransformedAttribute(destination, source.nodeName, source.nodeValue, source.namespaceUri);
+        }
+
+        return null;
+    }
+
+    /**
+     * Implements `xsl:copy-of` for node-set values of the select
+     * expression. Recurses down the source node tree, which is part of
+     * the input document.
+     * @param {XNode} destination the node being copied to, part of output document.
+     * @param {XNode} source the node being copied, part in input document.
+     */
+    protected xsltCopyOf(destination: XNode, source: XNode): void {
+        // The nodes of temporary trees, like the results of stylesheet
+        // functions, have their children in the transformed child nodes.
+        const childNodes = source.transformedNodeName || (source.nodeType == DOM_DOCUMENT_NODE && source.transformedChildNodes.length > 0) ?
+            source.transformedChildNodes :
+            source.childNodes;
+        if (source.nodeType == DOM_DOCUMENT_FRAGMENT_NODE || source.nodeType == DOM_DOCUMENT_NODE) {
+            for (let i = 0; i < childNodes.length; ++i) {
+                this.xsltCopyOf(destination, childNodes[i]);
+            }
+        } else {
+            const node = this.xsltCopy(destination, source);
+            if (node) {
+                // This was an element node -- recurse to attributes and
+                // children.
+                /* for (let i = 0; i < source.attributes.length; ++i) {
+                    this.xsltCopyOf(node, source.attributes[i]);
+                } */
+
+                for (let i = 0; i < childNodes.length; ++i) {
+                    this.xsltCopyOf(node, childNodes[i]);
+                }
+            }
+        }
+    }
+
+    /**
+     * Runs an XSLT instruction that is not implemented, or an extension
+     * element. Their `<xsl:fallback>` children are run instead; without them
+     * this is an error, as are unknown XSLT instructions outside of
+     * forwards-compatible mode.
+     * @param context The Expression Context.
+     * @param template The unknown instruction or extension element.
+     * @param output The output.
+     */
+    protected xsltFallback(context: ExprContext, template: XNode, output: XNode) {
+        const fallbacks = template.childNodes.filter(
+            (n) => n.nodeType === DOM_ELEMENT_NODE && this.isXsltElement(n, 'fallback')
+        );
+        if (!this.isXsltElement(template)) {
+            if (fallbacks.length === 0) {
+                throw new Error(`<${template.nodeName}> is not a supported extension element, and has no <xsl:fallback>.`);
+            }
+        } else if (!this.forwardsCompatible) {
+            throw new Error(`<xsl:${template.localName}> is not a known XSLT element.`);
+        } else if (fallbacks.length === 0) {
+            throw new Error(`<xsl:${template.localName}> is not supported, and has no <xsl:fallback>.`);
+        }
+
+        for (const fallback of fallbacks) {
+            this.xsltChildNodes(context, fallback, output);
+        }
+    }
+
+    /**
+     * Registers an `<xsl:function>` declaration of XSLT 2.0. Its name must
+     * have a namespace prefix, and its arity is its number of parameters.
+     * Declarations of higher import precedence come later, and win.
+     * @param context The Expression Context.
+     * @param definition The `<xsl:function>` node.
+     */
+    private xsltRegisterFunction(context: ExprContext, definition: XNode) {
+        if (context.xsltVersion === '1.0') {
+            throw new Error('<xsl:function> requires XSLT version 2.0 or later.');
+        }
+
+        const name = xmlGetAttribute(definition, 'name') || '';
+        const separator = name.indexOf(':');
+        if (separator <= 0) {
+            throw new Error(`The name of <xsl:function> must have a namespace prefix: "${name}".`);
+        }
+
+        const namespaceUri = this.xsltNamespaceUri(context, definition, name.substring(0, separator));
+        const expandedName = `{${namespaceUri}}${name.substring(separator + 1)}`;
+        const arity = definition.childNodes.filter(
+            (n) => n.nodeType === DOM_ELEMENT_NODE && this.isXsltElement(n, 'param')
+        ).length;
+        this.functions[expandedName] = { ...this.functions[expandedName], [arity]: definition };
+    }
+
+    /**
+     * Looks up a stylesheet function, for the `functionResolver` of the
+     * Expression Context.
+     * @param namespaceUri The namespace URI of the function name.
+     * @param localName The local name of the function.
+     * @param arity The number of arguments. Any arity matches when not given.
+     * @returns The function of the argument values, or `undefined` if there is none.
+     */
+    protected xsltFunction(
+        namespaceUri: string,
+        localName: string,
+        arity?: number
+    ): ((context: ExprContext, args: NodeValue[]) => NodeValue) | undefined {
+        const definitions = this.functions[`{${namespaceUri}}${localName}`] || {};
+        const definition = arity === undefined ? Object.values(definitions)[0] : definitions[arity];
+        if (!definition) {
+            return undefined;
+        }
+
+        return (context, args) => this.xsltCallFunction(context, definition, args);
+    }
+
+    /**
+     * Calls a stylesheet function. The arguments are bound to its parameters,
+     * converted to their `as` types, and its body is evaluated as a temporary
+     * tree or a sequence, converted to the `as` type of the function.
+     * @param context The Expression Context of the function call.
+     * @param definition The `<xsl:function>` node.
+     * @param args The argument values.
+     * @returns The result of the function.
+     */
+    protected xsltCallFunction(context: ExprContext, definition: XNode, args: NodeValue[]): NodeValue {
+        const name = xmlGetAttribute(definition, 'name');
+        if (this.functionDepth >= this.options.maxFunctionDepth) {
+            throw new Error(
+                `Stylesheet function calls are nested too deeply in ${name}(): the limit is ${this.options.maxFunctionDepth}.`
+            );
+        }
+
+        const root = new XDocument();
+        const functionContext = context.clone(undefined, [root], undefined, 0);
+        // Variables are looked up in the parameters, then in the global
+        // variables: the variables of the caller are out of scope.
+        functionContext.variables = {};
+        functionContext.parent = this.globalContext;
+        functionContext.knownNamespaces = this.xsltModuleNamespaces(context, definition);
+        const params = definition.childNodes.filter((n) => n.nodeType === DOM_ELEMENT_NODE && this.isXsltElement(n, 'param'));
+        params.forEach((param, i) => {
+            const paramName = xmlGetAttribute(param, 'name');
+            const description = `the parameter $${paramName} of ${name}()`;
+            functionContext.setVariable(paramName, xsltConvertToSequenceType(args[i], xmlGetAttribute(param, 'as'), description));
+        });
+
+        let result: NodeValue;
+        this.functionDepth++;
+        try {
+            result = this.xsltSequenceConstructor(functionContext, definition, root);
+        } finally {
+            this.functionDepth--;
+        }
+
+        return xsltConvertToSequenceType(result, xmlGetAttribute(definition, 'as'), `the result of ${name}()`);
+    }
+
+    /**
+     * Evaluates the body of a stylesheet function or variable into a
+     * temporary tree. When `<xsl:sequence>` adds items to it, the result
+     * is the sequence of these items and of the nodes of the tree, in order.
+     * @param context The Expression Context.
+     * @param template The `<xsl:function>` or `<xsl:variable>` node.
+     * @param root The root of the temporary tree.
+     * @returns The temporary tree, as a node-set, or the sequence.
+     */
+    protected xsltSequenceConstructor(context: ExprContext, template: XNode, root: XNode): NodeValue {
+        const items: SequenceItem[] = [];
+        this.sequenceItems.set(root, items);
+        try {
+            this.xsltChildNodes(context, template, root);
+        } finally {
+            this.sequenceItems.delete(root);
+        }
+
+        if (items.length === 0) {
+            return new NodeSetValue([root]);
+        }
+
+        return new SequenceValue(items.concat(this.xsltTakeTreeNodes(root)));
+    }
+
+    /**
+     * Removes the nodes written so far to a temporary tree, to add them to
+     * its sequence.
+     * @param root The root of the temporary tree.
+     * @returns The nodes.
+     */
+    protected xsltTakeTreeNodes(root: XNode): XNode[] {
+        const nodes = root.transformedChildNodes.filter((n) => n.nodeType !== DOM_ATTRIBUTE_NODE);
+        root.transformedChildNodes = root.transformedChildNodes.filter((n) => n.nodeType === DOM_ATTRIBUTE_NODE);
+        return nodes;
+    }
+
+    /**
+     * Implements `xsl:sequence` of XSLT 2.0. Directly in the body of a
+     * stylesheet function or variable, the selected items are added to its
+     * result as they are. Elsewhere, they are written to the output, as by
+     * `xsl:copy-of`.
+     * @param context The Expression Context.
+     * @param template The `<xsl:sequence>` node.
+     * @param output The output.
+     */
+    protected xsltSequence(context: ExprContext, template: XNode, output: XNode) {
+        if (context.xsltVersion === '1.0') {
+            throw new Error('<xsl:sequence> requires XSLT version 2.0 or later.');
+        }
+
+        const select = xmlGetAttribute(template, 'select');
+        if (!select) {
+            throw new Error('<xsl:sequence> requires the "select" attribute.');
+        }
+
+        const items = SequenceValue.itemsOf(this.xPath.xPathEval(select, context));
+        const sequence = this.sequenceItems.get(output);
+        if (sequence) {
+            // The nodes written before come first in the sequence.
+            sequence.push(...this.xsltTakeTreeNodes(output), ...items);
+            return;
+        }
+
+        const destination = output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE ? output : context.outputNodeList[context.outputPosition];
+        this.xsltCopySequence(destination, items);
+    }
+
+    /**
+     * Writes the items of a sequence to the output: copies of the nodes,
+     * and the atomic values as text, separated by spaces when adjacent.
+     * @param destination The output node.
+     * @param items The items.
+     */
+    protected xsltCopySequence(destination: XNode, items: SequenceItem[]) {
+        let text: string[] = [];
+        const flushText = () => {
+            if (text.length > 0) {
+                destination.appendTransformedChild(domCreateTransformedTextNode(this.outputDocument, text.join(' ')));
+                text = [];
+            }
+        };
+
+        for (const item of items) {
+            if (item instanceof XNode) {
+                flushText();
+                this.xsltCopyOf(destination, item);
+            } else {
+                text.push(item.stringValue());
+            }
+        }
+
+        flushText();
+    }
+
+    /**
+     * Implements `xsl:for-each`.
+     * @param input The Expression Context.
+     * @param template The template.
+     * @param output The output.
+     */
+    protected xsltForEach(context: ExprContext, template: XNode, output: XNode) {
+        const select = xmlGetAttribute(template, 'select');
+        const value = this.xPath.xPathEval(select, context);
+        // Atomic values, as in sequences of XPath 2.0, are processed as text nodes.
+        const nodes = value instanceof SequenceValue ? value.contextNodes() : value.nodeSetValue();
+        if (nodes.length === 0) {
+            return;
+        }
+
+        // TODO: Why do we need this sort, really?
+        // I have no idea why this logic is here (it was implemented
+        // before Design Liquido taking over), so if it is proven not useful,
+        // this entire logic must be removed.
+        const sortContext = context.clone(nodes);
+        this.xsltSort(sortContext, template, context);
+
+        for (let i = 0; i < sortContext.contextSize(); ++i) {
+            this.xsltChildNodes(sortContext.clone(sortContext.nodeList, undefined, i), template, output);
+        }
+    }
+
+    /**
+     * Implements `xsl:result-document` of XSLT 2.0. The content is built
+     * in a new result document, serialized with the output settings of the
+     * stylesheet, or of the named `<xsl:output>` of the `format` attribute,
+     * overridden by the serialization attributes of the instruction. The
+     * result is stored in `resultDocuments` by its `href`, and passed to
+     * the `onResultDocument` option when given. Without `href`, the content
+     * is written to the principal result.
+     * @see [XSLT 2.0], section 19.1.
+     * @param context The Expression Context.
+     * @param template The `<xsl:result-document>` node.
+     */
+    protected xsltResultDocument(context: ExprContext, template: XNode) {
+        if (context.xsltVersion === '1.0') {
+            throw new Error('<xsl:result-document> requires XSLT version 2.0 or later.');
+        }
+
+        // All the attributes are attribute value templates.
+        const attribute = (name: string): string => {
+            const attributeValue = xmlGetAttribute(template, name);
+            return attributeValue ? this.xsltAttributeValue(attributeValue, context) : undefined;
+        };
+
+        const href = attribute('href');
+        if (!href) {
+            this.xsltChildNodes(context.clone(undefined, [this.outputDocument]), template, this.outputDocument);
+            return;
+        }
+
+        if (href in this.resultDocuments) {
+            throw new Error(`Two result documents have the same URI: "${href}".`);
+        }
+
+        const format = attribute('format');
+        if (format && !this.outputFormats[format]) {
+            throw new Error(`The output format "${format}" of <xsl:result-document> is not declared.`);
+        }
+
+        const resultDocument = new XDocument();
+        this.xsltChildNodes(context.clone(undefined, [resultDocument], undefined, 0), template, resultDocument);
+        this.xsltNamespaceFixup(resultDocument);
+
+        const principalSettings = this.xsltOutputSettings();
+        try {
+            if (format) {
+                this.xsltResetOutputSettings();
+                for (const declaration of this.outputFormats[format]) {
+                    this.xsltReadOutputSettings((name) => xmlGetAttribute(declaration, name));
+                }
+            }
+
+            this.xsltReadOutputSettings(attribute);
+            this.resultDocuments[href] = this.xsltSerialize(resultDocument);
+        } finally {
+            Object.assign(this, principalSettings);
+        }
+
+        if (this.options.onResultDocument) {
+            this.options.onResultDocument(href, this.resultDocuments[href]);
+        }
+    }
+
+    /**
+     * Implements `xsl:analyze-string` of XSLT 2.0. The string is split into
+     * the substrings matching the regular expression and the ones between
+     * them, which are processed in order by `<xsl:matching-substring>` and
+     * `<xsl:non-matching-substring>`, with the substring as context item.
+     * The captured groups of a match are available to `regex-group()`.
+     * @see [XSLT 2.0], section 15.1.
+     * @param context The Expression Context.
+     * @param template The `<xsl:analyze-string>` node.
+     * @param output The output.
+     */
+    protected xsltAnalyzeString(context: ExprContext, template: XNode, output: XNode) {
+        if (context.xsltVersion === '1.0') {
+            throw new Error('<xsl:analyze-string> requires XSLT version 2.0 or later.');
+        }
+
+        const select = xmlGetAttribute(template, 'select');
+        const regexAttribute = xmlGetAttribute(template, 'regex');
+        if (!select || !regexAttribute) {
+            throw new Error('<xsl:analyze-string> requires the "select" and "regex" attributes.');
+        }
+
+        // The `regex` and `flags` attributes are attribute value templates.
+        const regex = this.xsltAttributeValue(regexAttribute, context);
+        const flagsAttribute = xmlGetAttribute(template, 'flags');
+        let regExp: RegExp;
+        try {
+            regExp = xPathRegExp(regex, flagsAttribute ? this.xsltAttributeValue(flagsAttribute, context) : '', true);
+        } catch (e) {
+            if (!(e instanceof SyntaxError)) {
+                throw e;
+            }
+
+            throw new Error(`Invalid regular expression in <xsl:analyze-string>: ${regex}`);
+        }
+
+        if (regExp.test('')) {
+            throw new Error(`The regular expression of <xsl:analyze-string> matches an empty string: ${regex}`);
+        }
+
+        const text = this.xPath.xPathEval(select, context).stringValue();
+        const substrings: { text: string; groups?: string[] }[] = [];
+        let lastIndex = 0;
+        regExp.lastIndex = 0;
+        let match: RegExpExecArray;
+        while ((match = regExp.exec(text)) !== null) {
+            if (match.index > lastIndex) {
+                substrings.push({ text: text.substring(lastIndex, match.index) });
+            }
+
+            substrings.push({ text: match[0], groups: match.map((group) => group || '') });
+            lastIndex = match.index + match[0].length;
+        }
+
+        if (lastIndex < text.length) {
+            substrings.push({ text: text.substring(lastIndex) });
+        }
+
+        const matching = template.childNodes.find(
+            (n) => n.nodeType === DOM_ELEMENT_NODE && this.isXsltElement(n, 'matching-substring')
+        );
+        const nonMatching = template.childNodes.find(
+            (n) => n.nodeType === DOM_ELEMENT_NODE && this.isXsltElement(n, 'non-matching-substring')
+        );
+
+        // The substrings are text nodes, so that `.`, `position()` and `last()` work on them.
+        const nodes = substrings.map((substring) => domCreateTextNode(this.outputDocument, substring.text));
+        for (let i = 0; i < substrings.length; ++i) {
+            const instruction = substrings[i].groups ? matching : nonMatching;
+            if (!instruction) {
+                continue;
+            }
+
+            const substringContext = context.clone(nodes, undefined, i);
+            substringContext.regexGroups = substrings[i].groups || [];
+            this.xsltChildNodes(substringContext, instruction, output);
+        }
+    }
+
+    /**
+     * Implements `xsl:for-each-group` of XSLT 2.0. The body runs once for
+     * each group, with its first node as context node, and the group and
+     * its key available to `current-group()` and `current-grouping-key()`.
+     * Groups are in order of first appearance, unless `xsl:sort` sorts them.
+     * @see [XSLT 2.0], section 14.
+     * @param context The Expression Context.
+     * @param template The `<xsl:for-each-group>` node.
+     * @param output The output.
+     */
+    protected xsltForEachGroup(context: ExprContext, template: XNode, output: XNode) {
+        if (context.xsltVersion === '1.0') {
+            throw new Error('<xsl:for-each-group> requires XSLT version 2.0 or later.');
+        }
+
+        const nodes = this.xPath.xPathEval(xmlGetAttribute(template, 'select'), context).nodeSetValue();
+        let groups = this.xsltGroups(context, template, nodes);
+
+        const sort = this.xsltSortKeys(template, context);
+        if (sort.length > 0) {
+            const sortList = groups.map((group, i) => {
+                const groupContext = context.clone([group.nodes[0]], undefined, 0);
+                groupContext.currentGroup = group.nodes;
+                groupContext.currentGroupingKey = group.key;
+                return { group, key: this.xPath.xPathSortKey(groupContext, sort, i) };
+            });
+            sortList.sort(this.xPath.xPathSortByKey);
+            groups = sortList.map((item) => item.group);
+        }
+
+        const initialNodes = groups.map((group) => group.nodes[0]);
+        for (let i = 0; i < groups.length; ++i) {
+            const groupContext = context.clone(initialNodes, undefined, i);
+            groupContext.currentGroup = groups[i].nodes;
+            groupContext.currentGroupingKey = groups[i].key;
+            this.xsltChildNodes(groupContext, template, output);
+        }
+    }
+
+    /**
+     * Splits the population of `xsl:for-each-group` into groups, following
+     * whichever of the `group-by`, `group-adjacent`, `group-starting-with`
+     * and `group-ending-with` attributes is set.
+     * @param context The Expression Context.
+     * @param template The `<xsl:for-each-group>` node.
+     * @param nodes The population.
+     * @returns The groups, with their grouping key for `group-by` and `group-adjacent`.
+     */
+    private xsltGroups(context: ExprContext, template: XNode, nodes: XNode[]): { nodes: XNode[]; key?: string }[] {
+        const groupBy = xmlGetAttribute(template, 'group-by');
+        const groupAdjacent = xmlGetAttribute(template, 'group-adjacent');
+        const groupStartingWith = xmlGetAttribute(template, 'group-starting-with');
+        const groupEndingWith = xmlGetAttribute(template, 'group-ending-with');
+        if ([groupBy, groupAdjacent, groupStartingWith, groupEndingWith].filter((a) => a).length !== 1) {
+            throw new Error(
+                '<xsl:for-each-group> requires exactly one of the "group-by", "group-adjacent", ' +
+                    '"group-starting-with" and "group-ending-with" attributes.'
+            );
+        }
+
+        const groups: { nodes: XNode[]; key?: string }[] = [];
+        if (groupBy) {
+            // A node is in the group of each of its distinct keys.
+            const expression = this.xPath.xPathParse(groupBy);
+            const groupsByKey = new Map<string, { nodes: XNode[]; key: string }>();
+            nodes.forEach((node, i) => {
+                const value = expression.evaluate(context.clone(nodes, undefined, i));
+                const keys = value.type === 'node-set' ? value.nodeSetValue().map((n: XNode) => xmlValue(n)) : [value.stringValue()];
+                for (const key of new Set<string>(keys)) {
+                    if (!groupsByKey.has(key)) {
+                        groupsByKey.set(key, { nodes: [], key });
+                        groups.push(groupsByKey.get(key));
+                    }
+
+                    groupsByKey.get(key).nodes.push(node);
+                }
+            });
+        } else if (groupAdjacent) {
+            const expression = this.xPath.xPathParse(groupAdjacent);
+            nodes.forEach((node, i) => {
+                const value = expression.evaluate(context.clone(nodes, undefined, i));
+                if (value.type === 'node-set' && value.nodeSetValue().length !== 1) {
+                    throw new Error(`The group-adjacent key "${groupAdjacent}" must be a single value.`);
+                }
+
+                const key = value.stringValue();
+                const lastGroup = groups[groups.length - 1];
+                if (lastGroup && lastGroup.key === key) {
+                    lastGroup.nodes.push(node);
+                } else {
+                    groups.push({ nodes: [node], key });
+                }
+            });
+        } else {
+            const pattern = this.xPath.xPathParse(groupStartingWith || groupEndingWith);
+            let startsGroup = true;
+            for (const node of nodes) {
+                const matches = this.xsltMatchesPattern(pattern, node, context);
+                if (startsGroup || (groupStartingWith && matches)) {
+                    groups.push({ nodes: [] });
+                }
+
+                groups[groups.length - 1].nodes.push(node);
+                startsGroup = !!groupEndingWith && matches;
+            }
+        }
+
+        return groups;
+    }
+
+    /**
+     * Orders the current node list in the input context according to the
+     * sort order specified by xsl:sort child nodes of the current
+     * template node. This happens before the operation specified by the
+     * current template node is executed.
+     * @param context The expression context, whose node list is sorted.
+     * @param template The template node.
+     * @param instructionContext The context of the sorting instruction, where
+     * the attribute value templates of `xsl:sort` are evaluated. Defaults to `context`.
+     */
+    protected xsltSort(context: ExprContext, template: XNode, instructionContext: ExprContext = context) {
+        this.xPath.xPathSort(context, this.xsltSortKeys(template, instructionContext));
+    }
+
+    /**
+     * Reads the `xsl:sort` child nodes of a template node. Their `data-type`
+     * and `order` attributes are attribute value templates.
+     * @param template The template node.
+     * @param context The Expression Context, for the attribute value templates.
+     * @returns The sort keys, as `xPathSort` takes them.
+     */
+    private xsltSortKeys(template: XNode, context: ExprContext): XPathSortKey[] {
+        const sort: XPathSortKey[] = [];
+
+        for (const childNode of template.childNodes) {
+            if (childNode.nodeType == DOM_ELEMENT_NODE && this.isXsltElement(childNode, 'sort')) {
+                const attribute = (name: string): string => {
+                    const attributeValue = xmlGetAttribute(childNode, name);
+                    return attributeValue ? this.xsltAttributeValue(attributeValue, context) : undefined;
+                };
+                const select = xmlGetAttribute(childNode, 'select') || '.';
+                const type = attribute('data-type') || 'text';
+                if (type !== 'text' && type !== 'number') {
+                    throw new Error(`Invalid data-type: "${type}". Use "text" or "number".`);
+                }
+
+                const order = attribute('order') || 'ascending';
+                if (order !== 'ascending' && order !== 'descending') {
+                    throw new Error(`Invalid order: "${order}". Use "ascending" or "descending".`);
+                }
+
+                sort.push({
+                    expr: this.xPath.xPathParse(select),
+                    type,
+                    order,
+                    compare: this.xsltSortCollation(childNode, context)
+                });
+            }
+        }
+
+        return sort;
+    }
+
+    /**
+     * Returns how an `<xsl:sort>` compares text sort keys: with the
+     * collation of its `collation` attribute, registered by URI in the
+     * `collations` option, or with an `Intl.Collator` for its `lang`
+     * and `case-order` attributes. Without any of them, strings are
+     * compared by code point. The three attributes are attribute value templates.
+     * @param sort The `<xsl:sort>` node.
+     * @param context The Expression Context.
+     * @returns The comparison function, or `undefined` for code point comparison.
+     */
+    private xsltSortCollation(sort: XNode, context: ExprContext): ((a: string, b: string) => number) | undefined {
+        const attribute = (name: string): string => {
+            const attributeValue = xmlGetAttribute(sort, name);
+            return attributeValue ? this.xsltAttributeValue(attributeValue, context) : undefined;
+        };
+        const collation = attribute('collation');
+        if (collation) {
+            if (!(collation in this.options.collations)) {
+                throw new Error(`Collation "${collation}" is not registered.`);
+            }
+
+            return this.options.collations[collation];
+        }
+
+        const lang = attribute('lang');
+        const caseOrder = attribute('case-order');
+        if (!lang && !caseOrder) {
+            return undefined;
+        }
+
+        const collatorOptions: Intl.CollatorOptions = {};
+        if (caseOrder === 'upper-first' || caseOrder === 'lower-first') {
+            collatorOptions.caseFirst = caseOrder === 'upper-first' ? 'upper' : 'lower';
+        } else if (caseOrder) {
+            throw new Error(`Invalid case-order: "${caseOrder}". Use "upper-first" or "lower-first".`);
+        }
+
+        const collator = new Intl.Collator(lang || undefined, collatorOptions);
+        return collator.compare;
+    }
+
+    /**
+     * Implements `<xsl:stylesheet>` and `<xsl:transform>`, and its corresponding
+     * validations.
+     * @param template The `<xsl:stylesheet>` or `<xsl:transform>` node.
+     * @param context The Expression Context.
+     * @param output The output XML.
+     */
+    protected xsltTransformOrStylesheet(template: XNode, context: ExprContext, output: XNode): void {
+        for (let stylesheetAttribute of template.childNodes.filter(n => n.nodeType === DOM_ATTRIBUTE_NODE)) {
+            switch (stylesheetAttribute.nodeName) {
+                case 'version':
+                    this.version = stylesheetAttribute.nodeValue;
+                    if (!/^\d+(\.\d+)?$/.test(this.version || '') || Number(this.version) < 1) {
+                        throw new Error(
+                            `XSLT version not defined or invalid. Actual resolved version: ${this.version || '(none)'}.`
+                        );
+                    }
+
+                    // Other versions are processed with the highest implemented version below them, the one
+                    // `system-property('xsl:version')` reports, in forwards-compatible mode.
+                    const versions: ExprContext['xsltVersion'][] = ['2.0', '1.0'];
+                    context.xsltVersion = versions.find((v) => Number(this.version) >= Number(v));
+                    this.forwardsCompatible = Number(this.version) !== Number(context.xsltVersion);
+                    break;
+                default:
+                    if (stylesheetAttribute.prefix === 'xmlns') {
+                        context.knownNamespaces[stylesheetAttribute.localName] = stylesheetAttribute.nodeValue;
+                    }
+                    break;
+            }
+        }
+
+        this.topLevelNodes = this.xsltImports(template, context);
+
+        // Whitespace is stripped from a copy of the source document, which
+        // even global variables see.
+        this.whitespaceDeclarations = this.topLevelNodes.filter(
+            (n) => n.nodeType === DOM_ELEMENT_NODE && (this.isXsltElement(n, 'strip-space') || this.isXsltElement(n, 'preserve-space'))
+        );
+        if (this.whitespaceDeclarations.length > 0 && context.root.nodeType === DOM_DOCUMENT_NODE) {
+            context.root = this.xsltStripSpace(context.root as XDocument, context);
+            context.nodeList = [context.root];
+            context.position = 0;
+        }
+
+        // Functions can be called before they are declared, even by global variables.
+        for (const definition of this.topLevelNodes.filter(
+            (n) => n.nodeType === DOM_ELEMENT_NODE && this.isXsltElement(n, 'function')
+        )) {
+            this.xsltRegisterFunction(context, definition);
+        }
+
+        // Top-level declarations are processed before template rules, so
+        // global variables and settings are visible wherever they are declared.
+        const contextClone = context.clone();
+        const isDeclaration = (n: XNode) => (
+            n.nodeType === DOM_ELEMENT_NODE && this.isXsltElement(n) && !this.isXsltElement(n, 'template')
+        );
+        for (const declaration of this.topLevelNodes.filter((n) => isDeclaration(n))) {
+            if (this.forwardsCompatible && !this.elementHandlers[declaration.localName]?.declaration) {
+                continue;
+            }
+
+            contextClone.knownNamespaces = this.xsltModuleNamespaces(context, declaration);
+            this.xsltProcessContext(contextClone, declaration, output);
+        }
+
+        contextClone.knownNamespaces = context.knownNamespaces;
+
+        // Other top-level elements, like lookup tables read with `document('')`, are ignored.
+        this.xsltApplyTemplates(contextClone, contextClone.nodeList, this.xsltTemplateRules(null), output);
+    }
+
+    /**
+     * Resolves the `<xsl:import>` and `<xsl:include>` declarations of a
+     * stylesheet, loading the referenced modules through the `stylesheetResolver`
+     * option. An include is replaced in place by the top-level elements of the
+     * included module, which get the precedence of the including module. Imports
+     * are resolved depth-first, so the document order of the merged declarations
+     * follows their import precedence, lowest first. Global variables and
+     * parameters overridden by a declaration of higher precedence are dropped.
+     * @param stylesheet The `<xsl:stylesheet>` or `<xsl:transform>` node.
+     * @param context The Expression Context.
+     * @returns The top-level nodes of the stylesheet, with the modules merged in.
+     */
+    protected xsltImports(stylesheet: XNode, context: ExprContext): XNode[] {
+        if (
+            !stylesheet.childNodes.some(
+                (c) => c.nodeType === DOM_ELEMENT_NODE && (this.isXsltElement(c, 'import') || this.isXsltElement(c, 'include'))
+            )
+        ) {
+            return stylesheet.childNodes.filter((c) => c.nodeType !== DOM_ATTRIBUTE_NODE);
+        }
+
+        this.moduleNamespaces.set(stylesheet, context.knownNamespaces);
+        const loadModule = (href: string): XNode => {
+            const module = this.xsltLoadStylesheet(href).documentElement;
+            const namespaces: { [prefix: string]: string } = {};
+            for (const attribute of module.childNodes) {
+                if (attribute.nodeType === DOM_ATTRIBUTE_NODE && attribute.prefix === 'xmlns') {
+                    namespaces[attribute.localName] = attribute.nodeValue;
+                }
+            }
+
+            this.moduleNamespaces.set(module, namespaces);
+            return module;
+        };
+
+        // Top-level nodes of a module, with its includes spliced in.
+        const expandIncludes = (module: XNode, hrefChain: string[]): XNode[] => {
+            const topLevelNodes: XNode[] = [];
+            for (const childNode of module.childNodes) {
+                if (childNode.nodeType === DOM_ATTRIBUTE_NODE) {
+                    continue;
+                }
+
+                if (childNode.nodeType !== DOM_ELEMENT_NODE || !this.isXsltElement(childNode, 'include')) {
+                    topLevelNodes.push(childNode);
+                    continue;
+                }
+
+                const href = xmlGetAttribute(childNode, 'href');
+                if (hrefChain.includes(href)) {
+                    throw new Error(`Stylesheet "${href}" includes itself, directly or indirectly.`);
+                }
+
+                topLevelNodes.push(...expandIncludes(loadModule(href), hrefChain.concat(href)));
+            }
+
+            return topLevelNodes;
+        };
+
+        let precedence = 0;
+        const collectDeclarations = (module: XNode, hrefChain: string[]): XNode[] => {
+            const declarations: XNode[] = [];
+            const ownDeclarations: XNode[] = [];
+            const importTreeStart = precedence + 1;
+            for (const childNode of expandIncludes(module, hrefChain)) {
+                if (childNode.nodeType !== DOM_ELEMENT_NODE || !this.isXsltElement(childNode, 'import')) {
+                    ownDeclarations.push(childNode);
+                    continue;
+                }
+
+                const href = xmlGetAttribute(childNode, 'href');
+                if (hrefChain.includes(href)) {
+                    throw new Error(`Stylesheet "${href}" imports itself, directly or indirectly.`);
+                }
+
+                declarations.push(...collectDeclarations(loadModule(href), hrefChain.concat(href)));
+            }
+
+            precedence++;
+            for (const declaration of ownDeclarations) {
+                this.importPrecedences.set(declaration, precedence);
+                this.importTreeStarts.set(declaration, importTreeStart);
+            }
+
+            return declarations.concat(ownDeclarations);
+        };
+
+        const declarations = collectDeclarations(stylesheet, []);
+        return declarations.filter((declaration, i) => !this.isGlobalVariableOverridden(declaration, declarations.slice(i + 1)));
+    }
+
+    /**
+     * Loads a stylesheet module referenced by `<xsl:import>` or `<xsl:include>`.
+     * @param href The URI reference, as written in the stylesheet.
+     * @returns The stylesheet module, as a DOM document.
+     */
+    protected xsltLoadStylesheet(href: string): XDocument {
+        if (!this.options.stylesheetResolver) {
+            throw new Error(`Cannot load stylesheet "${href}": no stylesheet resolver was set in the options.`);
+        }
+
+        const stylesheet = this.options.stylesheetResolver(href);
+        if (stylesheet === null || stylesheet === undefined) {
+            throw new Error(`Stylesheet "${href}" could not be resolved.`);
+        }
+
+        if (typeof stylesheet === 'string') {
+            return new XmlParser().xmlParse(stylesheet);
+        }
+
+        return stylesheet;
+    }
+
+    /**
+     * Returns the document of a `document()` call. Each URI is loaded
+     * through the `documentResolver` option only once per transformation.
+     * @param context The Expression Context.
+     * @param uri The URI reference, as given to `document()`.
+     * @param baseNode The node whose document gives the base URI, or
+     * `undefined` to use the base URI of the stylesheet.
+     * @param stylesheet The stylesheet document.
+     * @returns The document node.
+     */
+    protected xsltDocument(context: ExprContext, uri: string, baseNode: XNode | undefined, stylesheet: XDocument): XNode {
+        const baseDocument: XDocument = baseNode ? this.xsltOwnerDocument(baseNode) : stylesheet;
+        // The fragment identifier does not select anything in the document.
+        const reference = uri.replace(/#.*$/, '');
+        if (reference === '') {
+            return baseDocument;
+        }
+
+        const resolvedUri = this.xsltResolveUri(reference, baseDocument.baseUri);
+        if (this.documentCache.has(resolvedUri)) {
+            return this.documentCache.get(resolvedUri);
+        }
+
+        if (!this.options.documentResolver) {
+            throw new Error(`Cannot load document "${resolvedUri}": no document resolver was set in the options.`);
+        }
+
+        const loaded = this.options.documentResolver(resolvedUri);
+        if (loaded === null || loaded === undefined) {
+            throw new Error(`Document "${resolvedUri}" could not be resolved.`);
+        }
+
+        let document = typeof loaded === 'string' ? new XmlParser().xmlParse(loaded) : loaded;
+        if (this.whitespaceDeclarations.length > 0) {
+            document = this.xsltStripSpace(document, context);
+        }
+
+        document.baseUri = document.baseUri || resolvedUri;
+
+        this.documentCache.set(resolvedUri, document);
+        return document;
+    }
+
+    private xsltOwnerDocument(node: XNode): XDocument {
+        // Attributes do not always have their owner document set.
+        let root = node;
+        while (root.parentNode) {
+            root = root.parentNode;
+        }
+
+        return root.nodeType === DOM_DOCUMENT_NODE ? (root as XDocument) : node.ownerDocument;
+    }
+
+    /**
+     * Resolves a relative URI reference against a base URI. Base URIs
+     * that are not absolute, like `data/main.xml`, are resolved as paths.
+     * @param uri The URI reference.
+     * @param baseUri The base URI, if known.
+     * @returns The resolved URI.
+     */
+    protected xsltResolveUri(uri: string, baseUri: string): string {
+        if (!baseUri || /^[a-z][a-z0-9+.-]*:/i.test(uri)) {
+            return uri;
+        }
+
+        try {
+            return new URL(uri, baseUri).href;
+        } catch {
+            // The base URI is not absolute.
+        }
+
+        if (uri.startsWith('/')) {
+            return uri;
+        }
+
+        const segments: string[] = [];
+        for (const segment of baseUri.split('/').slice(0, -1).concat(uri.split('/'))) {
+            if (segment === '.') {
+                continue;
+            }
+
+            if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+                segments.pop();
+            } else {
+                segments.push(segment);
+            }
+        }
+
+        return segments.join('/');
+    }
+
+    /**
+     * Checks if a global `xsl:variable` or `xsl:param` is declared again,
+     * with the same name, in a stylesheet module of higher import precedence.
+     * @param declaration The top-level declaration.
+     * @param laterDeclarations The top-level declarations that come after it.
+     * @returns Whether the declaration is overridden.
+     */
+    private isGlobalVariableOverridden(declaration: XNode, laterDeclarations: XNode[]): boolean {
+        if (
+            declaration.nodeType !== DOM_ELEMENT_NODE ||
+            !(this.isXsltElement(declaration, 'variable') || this.isXsltElement(declaration, 'param'))
+        ) {
+            return false;
+        }
+
+        const name = xmlGetAttribute(declaration, 'name');
+        const precedence = this.xsltImportPrecedence(declaration);
+        return laterDeclarations.some((d) => (
+            d.nodeType === DOM_ELEMENT_NODE &&
+            (this.isXsltElement(d, 'variable') || this.isXsltElement(d, 'param')) &&
+            xmlGetAttribute(d, 'name') === name &&
+            this.xsltImportPrecedence(d) > precedence
+        ));
+    }
+
+    /**
+     * Returns the import precedence of a top-level element.
+     * @param node The top-level element.
+     * @returns The import precedence. Higher numbers win.
+     */
+    protected xsltImportPrecedence(node: XNode): number {
+        return this.importPrecedences.get(node) || 0;
+    }
+
+    /**
+     * Returns the namespace declarations that resolve the prefixes of the
+     * expressions and patterns of a top-level element: the ones of the
+     * stylesheet module it comes from.
+     * @param context The Expression Context.
+     * @param node The top-level element.
+     * @returns The namespace URIs, by prefix.
+     */
+    protected xsltModuleNamespaces(context: ExprContext, node: XNode): { [prefix: string]: string } {
+        return this.moduleNamespaces.get(node.parentNode) || context.knownNamespaces;
+    }
+
+    /**
+     * Evaluates a variable or parameter and set it in the current input
+     * context. Implements `xsl:variable`, `xsl:param`, and `xsl:with-param`.
+     *
+     * @param context The expression context.
+     * @param template The template node.
+     * @param override flag that defines if the value computed here
+     * overrides the one already in the input context if that is the
+     * case. I.e. decides if this is a default value or a local
+     * value. `xsl:variable` and `xsl:with-param` override; `xsl:param` doesn't.
+     */
+    protected xsltVariable(context: ExprContext, template: XNode, override: boolean) {
+        const name = xmlGetAttribute(template, 'name');
+        const select = xmlGetAttribute(template, 'select');
+
+        let value: any;
+
+        const nonAttributeChildren = template.childNodes.filter(n => n.nodeType !== DOM_ATTRIBUTE_NODE);
+        if (nonAttributeChildren.length > 0) {
+            const root = domCreateDocumentFragment(template.ownerDocument);
+            value = this.xsltSequenceConstructor(context, template, root);
+        } else if (select) {
+            value = this.xPath.xPathEval(select, context);
+        } else {
+            let parameterValue = '';
+            const filteredParameter = this.options.parameters.filter((p) => p.name === name);
+            if (filteredParameter.length > 0) {
+                parameterValue = filteredParameter[0].value;
+            }
+            value = new StringValue(parameterValue);
+        }
+
+        // A parameter keeps the value passed to it, in its own scope.
+        if (override || context.variables[name] === undefined) {
+            context.setVariable(name, value);
+        }
+    }
+
+    /**
+     * Traverses the template node tree. Calls the main processing
+     * function with the current input context for every child node of the
+     * current template node.
+     * @param context Normally the Expression Context.
+     * @param template The XSL-T definition.
+     * @param output If set, the output where the transformation should occur.
+     */
+    protected xsltChildNodes(context: ExprContext, template: XNode, output?: XNode) {
+        // Clone input context to keep variables declared here local to the
+        // siblings of the children.
+        const contextClone = context.clone();
+        for (let i = 0; i < template.childNodes.length; ++i) {
+            // Attributes are read by the instructions and literal result
+            // elements they belong to, as `xsl:use-attribute-sets` is.
+            if (template.childNodes[i].nodeType === DOM_ATTRIBUTE_NODE) {
+                continue;
+            }
+
+            this.xsltProcessContext(contextClone, template.childNodes[i], output);
+        }
+    }
+
+    /**
+     * This logic is used in two different places:
+     * - `xsltPassThrough`, if the template asks this library to write a text node;
+     * - `xsltProcessContext`, `apply-templates` operation, when the current node is text.
+     * @param context The Expression Context.
+     * @param template The template, that contains the node value to be written.
+     */
+    private commonLogicTextNode(context: ExprContext, template: XNode, output: XNode) {
+        if (output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
+            let node = domCreateTransformedTextNode(this.outputDocument, template.nodeValue);
+            domAppendTransformedChild(output, node);
+        } else {
+            const textNodeList = context.outputNodeList[context.outputPosition].transformedChildNodes.filter(
+                (n) => n.nodeType === DOM_TEXT_NODE
+            );
+
+            if (textNodeList.length > 0) {
+                let node = textNodeList[0];
+                node.transformedNodeValue = template.nodeValue;
+            } else {
+                let node = domCreateTransformedTextNode(this.outputDocument, template.nodeValue);
+                node.transformedParentNode = context.outputNodeList[context.outputPosition];
+                domAppendTransformedChild(context.outputNodeList[context.outputPosition], node);
+            }
+        }
+    }
+
+    /**
+     * Passes template text to the output. The current template node does
+     * not specify an XSL-T operation and therefore is appended to the
+     * output with all its attributes. Then continues traversing the
+     * template node tree.
+     * @param context The Expression Context.
+     * @param template The XSLT stylesheet or transformation.
+     * @param output The output.
+     */
+    protected xsltPassThrough(context: ExprContext, template: XNode, output: XNode) {
+        if (template.nodeType == DOM_TEXT_NODE) {
+            if (this.xsltPassText(template)) {
+                this.commonLogicTextNode(context, template, output);
+            }
+        } else if (template.nodeType == DOM_ELEMENT_NODE) {
+            let node: XNode;
+            let elementContext = context;
+            if (context.nodeList[context.position].nodeName === '#document') {
+                node = context.nodeList[context.position].childNodes.find(c => c.nodeType === DOM_ELEMENT_NODE);
+                elementContext = context.clone([node]);
+            } else {
+                node = context.nodeList[context.position];
+            }
+
+            const alias = this.namespaceAliases[template.namespaceUri];
+            const nodeName = alias ? this.xsltAliasedName(template, alias.prefix) : template.nodeName;
+            let newNode: XNode;
+            if (node.outputNode === undefined || node.outputNode === null || context.outputDepth > 0) {
+                newNode = domCreateElement(this.outputDocument, nodeName);
+                if (context.outputDepth === 0) {
+                    node.outputNode = newNode;
+                }
+            } else {
+                newNode = node.outputNode;
+            }
+
+            newNode.transformedNodeName = nodeName;
+            newNode.transformedLocalName = template.localName;
+            newNode.namespaceUri = alias ? alias.namespaceUri || null : template.namespaceUri;
+
+            // The node can have transformed attributes from previous transformations.
+            const transformedAttributes = node.transformedChildNodes.filter(n => n.nodeType === DOM_ATTRIBUTE_NODE);
+            for (const previouslyTransformedAttribute of transformedAttributes) {
+                const name = previouslyTransformedAttribute.transformedNodeName;
+                const value = previouslyTransformedAttribute.transformedNodeValue;
+                domSetTransformedAttribute(newNode, name, value, previouslyTransformedAttribute.namespaceUri);
+            }
+
+            const templateAttributes = template.childNodes.filter((a: XNode) => a?.nodeType === DOM_ATTRIBUTE_NODE);
+            const useAttributeSets = templateAttributes.find((a: XNode) => this.isXsltElement(a, 'use-attribute-sets'));
+            if (useAttributeSets) {
+                this.xsltUseAttributeSets(elementContext, useAttributeSets.nodeValue, newNode);
+            }
+
+            // The namespaces in scope in the stylesheet are copied, the ones declared
+            // on the ancestors of the element as well as its own, unless they are excluded.
+            const excludedNamespaces = [
+                XSLT_NAMESPACE_URI,
+                ...this.xsltPrefixListNamespaces(context, template, 'exclude-result-prefixes'),
+                ...this.xsltPrefixListNamespaces(context, template, 'extension-element-prefixes')
+            ];
+            const inheritedNamespaces = this.xsltStylesheetNamespaces(template.parentNode);
+            for (const declarationName of Object.keys(inheritedNamespaces)) {
+                if (!templateAttributes.some((a: XNode) => a.nodeName === declarationName)) {
+                    this.xsltCopyNamespaceDeclaration(newNode, declarationName, inheritedNamespaces[declarationName], excludedNamespaces);
+                }
+            }
+
+            for (const attribute of templateAttributes) {
+                if (attribute.nodeName === 'xmlns' || attribute.prefix === 'xmlns') {
+                    this.xsltCopyNamespaceDeclaration(newNode, attribute.nodeName, attribute.nodeValue, excludedNamespaces);
+                    continue;
+                }
+
+                // Attributes in the XSLT namespace, like `xsl:use-attribute-sets`, are not output.
+                if (this.isXsltElement(attribute)) {
+                    continue;
+                }
+
+                let name = attribute.nodeName;
+                let value = this.xsltAttributeValue(attribute.nodeValue, elementContext);
+                let namespaceUri = attribute.namespaceUri;
+                if (this.namespaceAliases[attribute.namespaceUri]) {
+                    name = this.xsltAliasedName(attribute, this.namespaceAliases[attribute.namespaceUri].prefix);
+                    namespaceUri = this.namespaceAliases[attribute.namespaceUri].namespaceUri;
+                }
+
+                domSetTransformedAttribute(newNode, name, value, namespaceUri);
+            }
+
+            const outputNode = context.outputNodeList[context.outputPosition];
+            domAppendTransformedChild(outputNode, newNode);
+            if (alias) {
+                this.xsltDeclareNamespace(newNode, alias.prefix, alias.namespaceUri);
+            }
+
+            const clonedContext = elementContext.cloneByOutput(
+                outputNode.transformedChildNodes,
+                outputNode.transformedChildNodes.length - 1,
+                ++elementContext.outputDepth
+            );
+            this.xsltChildNodes(clonedContext, template, output);
+        } else {
+            // This applies also to the DOCUMENT_NODE of the XSL stylesheet,
+            // so we don't have to treat it specially.
+            this.xsltChildNodes(context, template, output);
+        }
+    }
+
+    /**
+     * Implements `xsl:namespace-alias`: literal result elements and attributes
+     * in the namespace of `stylesheet-prefix` are output in the namespace of
+     * `result-prefix`, with that prefix. `#default` stands for the default namespace.
+     * @see [XSLT], section 7.1.1.
+     * @param context The Expression Context.
+     * @param template The `<xsl:namespace-alias>` node.
+     */
+    protected xsltNamespaceAlias(context: ExprContext, template: XNode) {
+        const stylesheetPrefix = xmlGetAttribute(template, 'stylesheet-prefix');
+        const resultPrefix = xmlGetAttribute(template, 'result-prefix');
+        if (!stylesheetPrefix || !resultPrefix) {
+            throw new Error('<xsl:namespace-alias> requires the "stylesheet-prefix" and "result-prefix" attributes.');
+        }
+
+        const stylesheetNamespaceUri = this.xsltNamespaceUri(context, template, stylesheetPrefix);
+        this.namespaceAliases[stylesheetNamespaceUri] = {
+            prefix: resultPrefix === '#default' ? '' : resultPrefix,
+            namespaceUri: this.xsltNamespaceUri(context, template, resultPrefix)
+        };
+    }
+
+    /**
+     * Resolves a namespace prefix declared in the scope of a stylesheet node.
+     * @param context The Expression Context.
+     * @param node The stylesheet node.
+     * @param prefix The prefix, or `#default` for the default namespace.
+     * @returns The namespace URI.
+     */
+    private xsltNamespaceUri(context: ExprContext, node: XNode, prefix: string): string {
+        const declarationName = prefix === '#default' ? 'xmlns' : `xmlns:${prefix}`;
+        for (let ancestor = node; ancestor; ancestor = ancestor.parentNode) {
+            const declaration = ancestor.childNodes.find(
+                (a: XNode) => a.nodeType === DOM_ATTRIBUTE_NODE && a.nodeName === declarationName
+            );
+            if (declaration) {
+                return declaration.nodeValue;
+            }
+        }
+
+        if (prefix === '#default') {
+            return '';
+        }
+
+        if (!(prefix in context.knownNamespaces)) {
+            throw new Error(`Namespace prefix "${prefix}" is not declared.`);
+        }
+
+        return context.knownNamespaces[prefix];
+    }
+
+    /**
+     * Returns the namespaces of the prefixes listed in the `exclude-result-prefixes`
+     * or `extension-element-prefixes` attributes in scope of a stylesheet node.
+     * These attributes are `xsl:`-prefixed on literal result elements. `#default`
+     * stands for the default namespace, and `#all` for every namespace in scope.
+     * @see [XSLT], sections 7.1.1 and 14.1.
+     * @param context The Expression Context.
+     * @param node The stylesheet node.
+     * @param attributeName `exclude-result-prefixes` or `extension-element-prefixes`.
+     * @returns The namespace URIs.
+     */
+    private xsltPrefixListNamespaces(context: ExprContext, node: XNode, attributeName: string): string[] {
+        const namespaces: string[] = [];
+        for (let ancestor = node; ancestor; ancestor = ancestor.parentNode) {
+            if (ancestor.nodeType !== DOM_ELEMENT_NODE) {
+                continue;
+            }
+
+            const attribute = ancestor.childNodes.find(
+                (a: XNode) => a.nodeType === DOM_ATTRIBUTE_NODE &&
+                    a.localName === attributeName &&
+                    this.isXsltElement(a) !== this.isXsltElement(ancestor)
+            );
+            for (const prefix of (attribute?.nodeValue || '').split(/\s+/).filter((p: string) => p)) {
+                if (prefix !== '#all') {
+                    namespaces.push(this.xsltNamespaceUri(context, ancestor, prefix));
+                    continue;
+                }
+
+                for (let scope = ancestor; scope; scope = scope.parentNode) {
+                    const declarations = scope.childNodes.filter(
+                        (a: XNode) => a.nodeType === DOM_ATTRIBUTE_NODE && (a.nodeName === 'xmlns' || a.prefix === 'xmlns')
+                    );
+                    namespaces.push(...declarations.map((a: XNode) => a.nodeValue));
+                }
+            }
+        }
+
+        return namespaces;
+    }
+
+    /**
+     * Returns the namespace declarations in scope of a stylesheet node: its
+     * own ones and the ones of its ancestors, the nearest winning.
+     * @param node The stylesheet node.
+     * @returns The namespace URIs, by declaration name (`xmlns` or `xmlns:prefix`).
+     */
+    private xsltStylesheetNamespaces(node: XNode): { [declarationName: string]: string } {
+        const namespaces: { [declarationName: string]: string } = {};
+        for (let ancestor = node; ancestor; ancestor = ancestor.parentNode) {
+            for (const attribute of ancestor.childNodes) {
+                if (
+                    attribute.nodeType === DOM_ATTRIBUTE_NODE &&
+                    (attribute.nodeName === 'xmlns' || attribute.prefix === 'xmlns') &&
+                    !(attribute.nodeName in namespaces)
+                ) {
+                    namespaces[attribute.nodeName] = attribute.nodeValue;
+                }
+            }
+        }
+
+        return namespaces;
+    }
+
+    /**
+     * Copies a namespace declaration of the stylesheet to an element created
+     * from a literal result element, unless its namespace is excluded. The
+     * declaration of an aliased namespace declares the result namespace.
+     * @param element The output element.
+     * @param declarationName `xmlns` or `xmlns:prefix`.
+     * @param namespaceUri The namespace URI.
+     * @param excludedNamespaces The namespaces not copied.
+     */
+    private xsltCopyNamespaceDeclaration(
+        element: XNode,
+        declarationName: string,
+        namespaceUri: string,
+        excludedNamespaces: string[]
+    ) {
+        if (excludedNamespaces.includes(namespaceUri)) {
+            return;
+        }
+
+        const alias = this.namespaceAliases[namespaceUri];
+        if (alias) {
+            domSetTransformedAttribute(element, alias.prefix ? `xmlns:${alias.prefix}` : 'xmlns', alias.namespaceUri);
+        } else {
+            domSetTransformedAttribute(element, declarationName, namespaceUri);
+        }
+    }
+
+    /**
+     * Returns the name of a literal result element or attribute with the
+     * prefix of its namespace alias.
+     * @param node The literal result element or attribute.
+     * @param prefix The result prefix, empty for the default namespace.
+     * @returns The qualified name.
+     */
+    private xsltAliasedName(node: XNode, prefix: string): string {
+        return prefix ? `${prefix}:${node.localName}` : node.localName;
+    }
+
+    /**
+     * Declares a namespace on an output element, unless it is already in
+     * scope there with the same prefix. The default namespace is empty
+     * where no ancestor declares it.
+     * @param element The output element.
+     * @param prefix The prefix, empty for the default namespace.
+     * @param namespaceUri The namespace URI.
+     */
+    private xsltDeclareNamespace(element: XNode, prefix: string, namespaceUri: string) {
+        const declarationName = prefix ? `xmlns:${prefix}` : 'xmlns';
+        if (this.xsltOutputNamespaces(element)[declarationName] === (namespaceUri || '')) {
+            return;
+        }
+
+        this.xsltAddNamespaceDeclaration(element, declarationName, namespaceUri || '');
+    }
+
+    /**
+     * Sets a namespace declaration on an output element. New declarations
+     * are written before the other attributes of the element.
+     * @param element The output element.
+     * @param declarationName `xmlns` or `xmlns:prefix`.
+     * @param namespaceUri The namespace URI.
+     */
+    private xsltAddNamespaceDeclaration(element: XNode, declarationName: string, namespaceUri: string) {
+        const isNew = !element.transformedChildNodes.some(
+            (n) => this.xsltIsNamespaceDeclaration(n) && n.transformedNodeName === declarationName
+        );
+        domSetTransformedAttribute(element, declarationName, namespaceUri);
+
+        const nodes = element.transformedChildNodes;
+        const position = nodes.findIndex((n) => n.nodeType === DOM_ATTRIBUTE_NODE && !this.xsltIsNamespaceDeclaration(n));
+        if (isNew && position >= 0) {
+            nodes.splice(position, 0, nodes.pop());
+        }
+    }
+
+    /**
+     * Whether an output node is a namespace declaration.
+     * @param node The output node.
+     * @returns `true` for `xmlns` and `xmlns:prefix` attributes.
+     */
+    private xsltIsNamespaceDeclaration(node: XNode): boolean {
+        const name = node.transformedNodeName;
+        return node.nodeType === DOM_ATTRIBUTE_NODE && (name === 'xmlns' || name?.startsWith('xmlns:'));
+    }
+
+    /**
+     * Returns the namespace declarations in scope on an output element.
+     * @param element The output element.
+     * @returns The namespace URIs, by declaration name (`xmlns` or `xmlns:prefix`).
+     */
+    private xsltOutputNamespaces(element: XNode): { [declarationName: string]: string } {
+        const namespaces: { [declarationName: string]: string } = { xmlns: '' };
+        const ancestors: XNode[] = [];
+        for (let ancestor = element; ancestor; ancestor = ancestor.transformedParentNode) {
+            ancestors.unshift(ancestor);
+        }
+
+        for (const ancestor of ancestors) {
+            for (const attribute of ancestor.transformedChildNodes) {
+                if (this.xsltIsNamespaceDeclaration(attribute)) {
+                    namespaces[attribute.transformedNodeName] = attribute.transformedNodeValue;
+                }
+            }
+        }
+
+        return namespaces;
+    }
+
+    /**
+     * Returns a prefix for a namespace: one declared for it in scope, or
+     * else a made-up one that is not declared.
+     * @param namespaces The namespace declarations in scope.
+     * @param namespaceUri The namespace URI.
+     * @returns The prefix.
+     */
+    private xsltNamespacePrefix(namespaces: { [declarationName: string]: string }, namespaceUri: string): string {
+        const declarationName = Object.keys(namespaces).find((n) => n !== 'xmlns' && namespaces[n] === namespaceUri);
+        let prefix = declarationName?.substring('xmlns:'.length);
+        for (let i = 0; !prefix; i++) {
+            prefix = `xmlns:ns${i}` in namespaces ? undefined : `ns${i}`;
+        }
+
+        return prefix;
+    }
+
+    /**
+     * Namespace fixup of the output tree, before it is serialized: the prefix
+     * of every element and attribute name is declared where it is not in scope,
+     * and declarations already in scope are dropped. A prefix bound to a
+     * single namespace in the tree of a top-level element is declared once,
+     * on that element.
+     * @param node The output document.
+     */
+    protected xsltNamespaceFixup(node: XNode) {
+        for (const element of this.xsltOutputChildElements(node)) {
+            const namespaces = this.xsltNamespacesUsed(element);
+            for (const prefix of Object.keys(namespaces)) {
+                if (namespaces[prefix] !== null) {
+                    this.xsltDeclareNamespace(element, prefix, namespaces[prefix]);
+                }
+            }
+
+            this.xsltFixupElementNamespaces(element, { xmlns: '' });
+        }
+    }
+
+    /**
+     * Fixes the namespace declarations of an output element and its descendants.
+     * @param element The output element.
+     * @param inherited The namespace declarations in scope on the parent.
+     */
+    private xsltFixupElementNamespaces(element: XNode, inherited: { [declarationName: string]: string }) {
+        const namespaces = { ...inherited };
+        for (const declaration of element.transformedChildNodes.filter((n) => this.xsltIsNamespaceDeclaration(n))) {
+            if (inherited[declaration.transformedNodeName] === declaration.transformedNodeValue) {
+                element.removeTransformedAttribute(declaration.transformedNodeName);
+            } else {
+                namespaces[declaration.transformedNodeName] = declaration.transformedNodeValue;
+            }
+        }
+
+        const name = this.xsltOutputName(element);
+        const declarationName = name?.prefix ? `xmlns:${name.prefix}` : 'xmlns';
+        if (name && namespaces[declarationName] !== name.namespaceUri) {
+            this.xsltAddNamespaceDeclaration(element, declarationName, name.namespaceUri);
+            namespaces[declarationName] = name.namespaceUri;
+        }
+
+        const attributes = element.transformedChildNodes.filter(
+            (n) => n.nodeType === DOM_ATTRIBUTE_NODE && !this.xsltIsNamespaceDeclaration(n)
+        );
+        for (const attribute of attributes) {
+            const attributeName = this.xsltOutputName(attribute);
+            if (!attributeName || namespaces[`xmlns:${attributeName.prefix}`] === attributeName.namespaceUri) {
+                continue;
+            }
+
+            // The prefix is bound to another namespace on this element.
+            let prefix = attributeName.prefix;
+            if (element.transformedChildNodes.some((n) => this.xsltIsNamespaceDeclaration(n) && n.transformedNodeName === `xmlns:${prefix}`)) {
+                prefix = this.xsltNamespacePrefix(namespaces, attributeName.namespaceUri);
+                attribute.transformedNodeName = `${prefix}:${attributeName.localName}`;
+            }
+
+            if (namespaces[`xmlns:${prefix}`] !== attributeName.namespaceUri) {
+                this.xsltAddNamespaceDeclaration(element, `xmlns:${prefix}`, attributeName.namespaceUri);
+                namespaces[`xmlns:${prefix}`] = attributeName.namespaceUri;
+            }
+        }
+
+        for (const child of this.xsltOutputChildElements(element)) {
+            this.xsltFixupElementNamespaces(child, namespaces);
+        }
+    }
+
+    /**
+     * Returns the output elements under a node. The children of muted
+     * elements, which are not written, take their place.
+     * @param node The output node.
+     * @returns The child elements.
+     */
+    private xsltOutputChildElements(node: XNode): XNode[] {
+        const elements: XNode[] = [];
+        for (const child of node.transformedChildNodes) {
+            if ((child.transformedNodeType || child.nodeType) !== DOM_ELEMENT_NODE) {
+                continue;
+            }
+
+            if (child.transformedNodeName === null || child.transformedNodeName === undefined) {
+                elements.push(...this.xsltOutputChildElements(child));
+            } else {
+                elements.push(child);
+            }
+        }
+
+        return elements;
+    }
+
+    /**
+     * Returns the namespaces used by the names in the tree of an output element.
+     * @param element The output element.
+     * @returns The namespace URIs by prefix, empty for the default namespace, or
+     * `null` for prefixes bound to more than one namespace in the tree.
+     */
+    private xsltNamespacesUsed(element: XNode): { [prefix: string]: string | null } {
+        const used: { [prefix: string]: string | null } = {};
+        const declared: { [prefix: string]: string[] } = {};
+        const use = (prefix: string, namespaceUri: string) => {
+            used[prefix] = prefix in used && used[prefix] !== namespaceUri ? null : namespaceUri;
+        };
+
+        const visit = (node: XNode) => {
+            const name = this.xsltOutputName(node);
+            if (name) {
+                use(name.prefix, name.namespaceUri);
+            }
+
+            for (const attribute of node.transformedChildNodes.filter((n) => n.nodeType === DOM_ATTRIBUTE_NODE)) {
+                if (this.xsltIsNamespaceDeclaration(attribute)) {
+                    const prefix = attribute.transformedNodeName.substring('xmlns:'.length);
+                    declared[prefix] = (declared[prefix] || []).concat(attribute.transformedNodeValue);
+                    continue;
+                }
+
+                const attributeName = this.xsltOutputName(attribute);
+                if (attributeName) {
+                    use(attributeName.prefix, attributeName.namespaceUri);
+                }
+            }
 
-        for (const childNode of template.childNodes) {
-            if (childNode.nodeType == DOM_ELEMENT_NODE && this.isXsltElement(childNode, 'sort')) {
-                const select = xmlGetAttribute(childNode, 'select');
-                const expression = this.xPath.xPathParse(select);
-                const type = xmlGetAttribute(childNode, 'data-type') || 'text';
-                const order = xmlGetAttribute(childNode, 'order') || 'ascending';
-                sort.push({
-                    expr: expression,
-                    type,
-                    order
-                });
+            this.xsltOutputChildElements(node).forEach(visit);
+        };
+
+        visit(element);
+        for (const prefix of Object.keys(used)) {
+            if ((declared[prefix] || []).some((namespaceUri) => namespaceUri !== used[prefix])) {
+                used[prefix] = null;
             }
         }
 
-        this.xPath.xPathSort(context, sort);
+        return used;
     }
 
     /**
-     * Implements `<xsl:stylesheet>` and `<xsl:transform>`, and its corresponding
-     * validations.
-     * @param template The `<xsl:stylesheet>` or `<xsl:transform>` node.
-     * @param context The Expression Context.
-     * @param output The output XML.
+     * Splits the name of an output element or attribute, for the namespace fixup.
+     * @param node The output element or attribute.
+     * @returns The prefix, empty for none, the local name and the namespace URI,
+     * or `undefined` for names that are not declared: attributes without prefix,
+     * `xml` and `xmlns` prefixes, and prefixes of unknown namespace.
      */
-    protected xsltTransformOrStylesheet(template: XNode, context: ExprContext, output: XNode): void {
-        for (let stylesheetAttribute of template.childNodes.filter(n => n.nodeType === DOM_ATTRIBUTE_NODE)) {
-            switch (stylesheetAttribute.nodeName) {
-                case 'version':
-                    this.version = stylesheetAttribute.nodeValue;
-                    if (!['1.0', '2.0', '3.0'].includes(this.version)) {
-                        throw new Error(
-                            `XSLT version not defined or invalid. Actual resolved version: ${this.version || '(none)'}.`
-                        );
-                    }
-                    context.xsltVersion = this.version as any;
-                    break;
-                default:
-                    if (stylesheetAttribute.prefix === 'xmlns') {
-                        context.knownNamespaces[stylesheetAttribute.localName] = stylesheetAttribute.nodeValue;
-                    }
-                    break;
-            }
+    private xsltOutputName(node: XNode): { prefix: string; localName: string; namespaceUri: string } | undefined {
+        const qualifiedName: string = node.transformedNodeName;
+        const separator = qualifiedName.indexOf(':');
+        const prefix = separator < 0 ? '' : qualifiedName.substring(0, separator);
+        if (
+            prefix === 'xml' ||
+            prefix === 'xmlns' ||
+            (prefix === '' && node.nodeType === DOM_ATTRIBUTE_NODE) ||
+            (prefix !== '' && !node.namespaceUri)
+        ) {
+            return undefined;
         }
 
-        this.xsltChildNodes(context, template, output);
+        return { prefix, localName: qualifiedName.substring(separator + 1), namespaceUri: node.namespaceUri || '' };
     }
 
     /**
-     * Evaluates a variable or parameter and set it in the current input
-     * context. Implements `xsl:variable`, `xsl:param`, and `xsl:with-param`.
-     *
-     * @param context The expression context.
-     * @param template The template node.
-     * @param override flag that defines if the value computed here
-     * overrides the one already in the input context if that is the
-     * case. I.e. decides if this is a default value or a local
-     * value. `xsl:variable` and `xsl:with-param` override; `xsl:param` doesn't.
+     * Resolves the name of `<xsl:element>` or `<xsl:attribute>`. The namespace
+     * is the `namespace` attribute, as an attribute value template, or else the
+     * one of the prefix of the name in the scope of the instruction. Names
+     * without prefix are in the default namespace for elements, and in no
+     * namespace for attributes.
+     * @param context The Expression Context.
+     * @param template The `<xsl:element>` or `<xsl:attribute>` node.
+     * @param qualifiedName The computed name.
+     * @param isAttribute Whether the name is of an attribute.
+     * @returns The name parts and the namespace URI, empty for no namespace.
      */
-    protected xsltVariable(context: ExprContext, template: XNode, override: boolean) {
-        const name = xmlGetAttribute(template, 'name');
-        const select = xmlGetAttribute(template, 'select');
-
-        let value: any;
+    protected xsltResolveName(
+        context: ExprContext,
+        template: XNode,
+        qualifiedName: string,
+        isAttribute: boolean
+    ): { qualifiedName: string; prefix: string; localName: string; namespaceUri: string } {
+        if (!/^([^\s:]+:)?[^\s:]+$/.test(qualifiedName || '')) {
+            throw new Error(`Invalid name for <xsl:${template.localName}>: "${qualifiedName || ''}".`);
+        }
 
-        const nonAttributeChildren = template.childNodes.filter(n => n.nodeType !== DOM_ATTRIBUTE_NODE);
-        if (nonAttributeChildren.length > 0) {
-            const root = domCreateDocumentFragment(template.ownerDocument);
-            this.xsltChildNodes(context, template, root);
-            value = new NodeSetValue([root]);
-        } else if (select) {
-            value = this.xPath.xPathEval(select, context);
+        let [prefix, localName] = qualifiedName.includes(':') ? qualifiedName.split(':') : [null, qualifiedName];
+        let namespaceUri: string;
+        const namespace = xmlGetAttribute(template, 'namespace');
+        if (namespace !== null && namespace !== undefined) {
+            namespaceUri = this.xsltAttributeValue(namespace, context);
+        } else if (prefix === 'xml') {
+            namespaceUri = 'http://www.w3.org/XML/1998/namespace';
+        } else if (prefix) {
+            namespaceUri = this.xsltNamespaceUri(context, template, prefix);
         } else {
-            let parameterValue = '';
-            const filteredParameter = this.options.parameters.filter((p) => p.name === name);
-            if (filteredParameter.length > 0) {
-                parameterValue = filteredParameter[0].value;
-            }
-            value = new StringValue(parameterValue);
+            namespaceUri = isAttribute ? '' : this.xsltNamespaceUri(context, template, '#default');
         }
 
-        if (override || !context.getVariable(name)) {
-            context.setVariable(name, value);
+        if (!namespaceUri) {
+            prefix = null;
         }
+
+        return {
+            qualifiedName: prefix ? `${prefix}:${localName}` : localName,
+            prefix,
+            localName,
+            namespaceUri
+        };
     }
 
     /**
-     * Traverses the template node tree. Calls the main processing
-     * function with the current input context for every child node of the
-     * current template node.
-     * @param context Normally the Expression Context.
-     * @param template The XSL-T definition.
-     * @param output If set, the output where the transformation should occur.
+     * Sets an attribute computed by `<xsl:attribute>` on an output element,
+     * declaring its namespace. Attributes in a namespace need a prefix:
+     * without one, a prefix in scope for the namespace is used, or one is made up.
+     * @param element The output element.
+     * @param name The resolved attribute name.
+     * @param value The attribute value.
      */
-    protected xsltChildNodes(context: ExprContext, template: XNode, output?: XNode) {
-        // Clone input context to keep variables declared here local to the
-        // siblings of the children.
-        const contextClone = context.clone();
-        for (let i = 0; i < template.childNodes.length; ++i) {
-            this.xsltProcessContext(contextClone, template.childNodes[i], output);
+    protected xsltSetAttribute(
+        element: XNode,
+        name: { qualifiedName: string; prefix: string; localName: string; namespaceUri: string },
+        value: string
+    ) {
+        if (!name.namespaceUri || element.nodeType !== DOM_ELEMENT_NODE) {
+            domSetTransformedAttribute(element, name.qualifiedName, value, name.namespaceUri);
+            return;
+        }
+
+        const prefix = name.prefix || this.xsltNamespacePrefix(this.xsltOutputNamespaces(element), name.namespaceUri);
+
+        if (prefix !== 'xml') {
+            this.xsltDeclareNamespace(element, prefix, name.namespaceUri);
         }
+
+        domSetTransformedAttribute(element, `${prefix}:${name.localName}`, value, name.namespaceUri);
     }
 
     /**
-     * This logic is used in two different places:
-     * - `xsltPassThrough`, if the template asks this library to write a text node;
-     * - `xsltProcessContext`, `apply-templates` operation, when the current node is text.
+     * Copies a source document without the whitespace-only text nodes whose
+     * parent element is matched by `xsl:strip-space`, unless `xsl:preserve-space`
+     * or an `xml:space="preserve"` in scope keeps them. The document itself
+     * is not changed.
+     * @see [XSLT], section 3.4.
+     * @param document The source document.
      * @param context The Expression Context.
-     * @param template The template, that contains the node value to be written.
+     * @returns The stripped copy.
      */
-    private commonLogicTextNode(context: ExprContext, template: XNode, output: XNode) {
-        if (output.nodeType === DOM_DOCUMENT_FRAGMENT_NODE) {
-            let node = domCreateTransformedTextNode(this.outputDocument, template.nodeValue);
-            domAppendTransformedChild(output, node);
-        } else {
-            const textNodeList = context.outputNodeList[context.outputPosition].transformedChildNodes.filter(
-                (n) => n.nodeType === DOM_TEXT_NODE
-            );
-
-            if (textNodeList.length > 0) {
-                let node = textNodeList[0];
-                node.transformedNodeValue = template.nodeValue;
-            } else {
-                let node = domCreateTransformedTextNode(this.outputDocument, template.nodeValue);
-                node.transformedParentNode = context.outputNodeList[context.outputPosition];
-                domAppendTransformedChild(context.outputNodeList[context.outputPosition], node);
-            }
-        }
+    protected xsltStripSpace(document: XDocument, context: ExprContext): XDocument {
+        const copy = new XDocument();
+        copy.baseUri = document.baseUri;
+        this.xsltCopyStrippedChildren(document, copy, context, false);
+        return copy;
     }
 
     /**
-     * Passes template text to the output. The current template node does
-     * not specify an XSL-T operation and therefore is appended to the
-     * output with all its attributes. Then continues traversing the
-     * template node tree.
+     * Copies the children of a source node for `xsltStripSpace`.
+     * @param node The source node.
+     * @param parent The copy of the source node.
      * @param context The Expression Context.
-     * @param template The XSLT stylesheet or transformation.
-     * @param output The output.
+     * @param preserve Whether an `xml:space="preserve"` is in scope.
      */
-    protected xsltPassThrough(context: ExprContext, template: XNode, output: XNode) {
-        if (template.nodeType == DOM_TEXT_NODE) {
-            if (this.xsltPassText(template)) {
-                this.commonLogicTextNode(context, template, output);
-            }
-        } else if (template.nodeType == DOM_ELEMENT_NODE) {
-            let node: XNode;
-            let elementContext = context;
-            if (context.nodeList[context.position].nodeName === '#document') {
-                node = context.nodeList[context.position].childNodes.find(c => c.nodeName !== '#dtd-section');
-                elementContext = context.clone([node]);
-            } else {
-                node = context.nodeList[context.position];
+    private xsltCopyStrippedChildren(node: XNode, parent: XNode, context: ExprContext, preserve: boolean) {
+        const strip = !preserve && node.nodeType === DOM_ELEMENT_NODE && this.xsltIsSpaceStripped(node, context);
+        const ownerDocument = parent.ownerDocument || parent;
+        for (const childNode of node.childNodes) {
+            if (strip && childNode.nodeType === DOM_TEXT_NODE && /^\s*$/.test(childNode.nodeValue)) {
+                continue;
             }
 
-            let newNode: XNode;
-            if (node.outputNode === undefined || node.outputNode === null || context.outputDepth > 0) {
-                newNode = domCreateElement(this.outputDocument, template.nodeName);
-                newNode.siblingPosition = node.siblingPosition;
-                if (context.outputDepth === 0) {
-                    node.outputNode = newNode;
-                }
-            } else {
-                newNode = node.outputNode;
+            const copy = XNode.create(
+                childNode.nodeType,
+                childNode.nodeName,
+                childNode.nodeValue,
+                ownerDocument,
+                childNode.namespaceUri
+            );
+            copy.siblingPosition = childNode.siblingPosition;
+            parent.appendChild(copy);
+            if (childNode.nodeType === DOM_ELEMENT_NODE) {
+                const xmlSpace = domGetAttributeValue(childNode, 'xml:space');
+                this.xsltCopyStrippedChildren(
+                    childNode,
+                    copy,
+                    context,
+                    xmlSpace === 'preserve' || (preserve && xmlSpace !== 'default')
+                );
             }
+        }
+    }
 
-            newNode.transformedNodeName = template.nodeName;
-            newNode.transformedLocalName = template.localName;
+    /**
+     * Checks if the whitespace-only text nodes of an element are stripped.
+     * Among the declarations whose name tests match the element, the one of
+     * highest import precedence wins, then the one of highest priority (`*`
+     * has -0.5, `prefix:*` has -0.25 and names have 0), then the last one.
+     * @param element The source element.
+     * @param context The Expression Context, to resolve namespace prefixes.
+     * @returns Whether the element is stripped.
+     */
+    private xsltIsSpaceStripped(element: XNode, context: ExprContext): boolean {
+        let best: { strip: boolean; precedence: number; priority: number };
+        for (const declaration of this.whitespaceDeclarations) {
+            const precedence = this.xsltImportPrecedence(declaration);
+            const nameTests = (xmlGetAttribute(declaration, 'elements') || '').split(/\s+/).filter((n) => n);
+            for (const nameTest of nameTests) {
+                const [prefix, localName] = nameTest.includes(':') ? nameTest.split(':') : [null, nameTest];
+                const namespaceUri = prefix === null ? undefined : this.xsltModuleNamespaces(context, declaration)[prefix];
+                const namespaceMatches = namespaceUri !== undefined ?
+                    element.namespaceUri === namespaceUri :
+                    (element.prefix || null) === prefix;
+                if (nameTest !== '*' && (!namespaceMatches || (localName !== '*' && element.localName !== localName))) {
+                    continue;
+                }
 
-            // The node can have transformed attributes from previous transformations.
-            const transformedAttributes = node.transformedChildNodes.filter(n => n.nodeType === DOM_ATTRIBUTE_NODE);
-            for (const previouslyTransformedAttribute of transformedAttributes) {
-                const name = previouslyTransformedAttribute.transformedNodeName;
-                const value = previouslyTransformedAttribute.transformedNodeValue;
-                domSetTransformedAttribute(newNode, name, value);
-            }
+                let priority = 0;
+                if (localName === '*') {
+                    priority = prefix === null ? -0.5 : -0.25;
+                }
 
-            const templateAttributes = template.childNodes.filter((a: XNode) => a?.nodeType === DOM_ATTRIBUTE_NODE);
-            for (const attribute of templateAttributes) {
-                const name = attribute.nodeName;
-                const value = this.xsltAttributeValue(attribute.nodeValue, elementContext);
-                domSetTransformedAttribute(newNode, name, value);
+                if (
+                    best === undefined ||
+                    precedence > best.precedence ||
+                    (precedence === best.precedence && priority >= best.priority)
+                ) {
+                    best = { strip: this.isXsltElement(declaration, 'strip-space'), precedence, priority };
+                }
             }
-
-            const outputNode = context.outputNodeList[context.outputPosition];
-            domAppendTransformedChild(outputNode, newNode);
-            const clonedContext = elementContext.cloneByOutput(
-                outputNode.transformedChildNodes,
-                outputNode.transformedChildNodes.length - 1,
-                ++elementContext.outputDepth
-            );
-            this.xsltChildNodes(clonedContext, template, output);
-        } else {
-            // This applies also to the DOCUMENT_NODE of the XSL stylesheet,
-            // so we don't have to treat it specially.
-            this.xsltChildNodes(context, template, output);
         }
+
+        return best !== undefined && best.strip;
     }
 
     /**
@@ -820,8 +3115,7 @@ export class Xslt {
      * @see [XSLT], section 3.4.
      * @param template The XSLT template.
      * @returns TODO
-     * @todo Whitespace stripping on the input document is
-     * currently not implemented.
+     * @see `xsltStripSpace` for whitespace stripping on the input document.
      */
     protected xsltPassText(template: XNode) {
         if (!template.nodeValue.match(/^\s*$/)) {
@@ -859,28 +3153,52 @@ export class Xslt {
      * Evaluates an XSL-T attribute value template. Attribute value
      * templates are attributes on XSL-T elements that contain XPath
      * expressions in braces {}. The XSL-T expressions are evaluated in
-     * the current input context.
+     * the current input context. Doubled braces, `{{` and `}}`, stand
+     * for literal braces, as in the regular expressions of `xsl:analyze-string`.
      * @param value TODO
      * @param context TODO
      * @returns TODO
      */
     protected xsltAttributeValue(value: any, context: ExprContext) {
-        const parts = value.split('{');
-        if (parts.length === 1) {
+        if (!value.includes('{') && !value.includes('}')) {
             return value;
         }
 
         let ret = '';
-        for (let i = 0; i < parts.length; ++i) {
-            const rp = parts[i].split('}');
-            if (rp.length != 2) {
-                // first literal part of the value
-                ret += parts[i];
+        let i = 0;
+        while (i < value.length) {
+            const c = value[i];
+            if ((c === '{' || c === '}') && value[i + 1] === c) {
+                ret += c;
+                i += 2;
+                continue;
+            }
+
+            if (c !== '{') {
+                ret += c;
+                i++;
                 continue;
             }
 
-            const val = this.xPath.xPathEval(rp[0], context).stringValue();
-            ret += val + rp[1];
+            // The expression ends at the first closing brace outside string literals.
+            let end = i + 1;
+            let quote = '';
+            while (end < value.length && (quote || value[end] !== '}')) {
+                if (quote) {
+                    quote = value[end] === quote ? '' : quote;
+                } else if (value[end] === "'" || value[end] === '"') {
+                    quote = value[end];
+                }
+
+                end++;
+            }
+
+            if (end >= value.length) {
+                throw new Error(`Unterminated expression in attribute value template: ${value}`);
+            }
+
+            ret += this.xPath.xPathEval(value.substring(i + 1, end), context).stringValue();
+            i = end + 1;
         }
 
         return ret;
@@ -900,6 +3218,282 @@ export class Xslt {
         return this.matchResolver.expressionMatch(expression, context);
     }
 
+    /**
+     * Implements the lookup of the `key()` function. The index of a key
+     * is built the first time it is used on a document, and reused after.
+     * @param context The Expression Context. Its node defines the document to search.
+     * @param name The key name.
+     * @param values The key values to look up.
+     * @returns The nodes with any of the values as key value, in document order.
+     */
+    protected xsltKeyLookup(context: ExprContext, name: string, values: string[]): XNode[] {
+        const declarations = this.keys[name];
+        if (declarations === undefined) {
+            throw new Error(`Key "${name}" is not declared.`);
+        }
+
+        const node = context.nodeList[context.position];
+        const document = node.nodeType === DOM_DOCUMENT_NODE ? node : node.ownerDocument;
+        let documentIndexes = this.keyIndexes.get(document);
+        if (documentIndexes === undefined) {
+            const positions = new Map<XNode, number>();
+            const collectNodes = (n: XNode) => {
+                positions.set(n, positions.size);
+                for (const childNode of n.childNodes) {
+                    collectNodes(childNode);
+                }
+            };
+
+            collectNodes(document);
+            documentIndexes = { positions, indexes: {} };
+            this.keyIndexes.set(document, documentIndexes);
+        }
+
+        if (!(name in documentIndexes.indexes)) {
+            documentIndexes.indexes[name] = this.xsltBuildKeyIndex(
+                context,
+                document,
+                declarations,
+                Array.from(documentIndexes.positions.keys())
+            );
+        }
+
+        const index = documentIndexes.indexes[name];
+        if (values.length === 1) {
+            return index.get(values[0]) || [];
+        }
+
+        const nodes = new Set<XNode>();
+        for (const value of values) {
+            for (const indexedNode of index.get(value) || []) {
+                nodes.add(indexedNode);
+            }
+        }
+
+        const positions = documentIndexes.positions;
+        return Array.from(nodes).sort((a, b) => positions.get(a) - positions.get(b));
+    }
+
+    /**
+     * Builds the index of a key on a document.
+     * @param context The Expression Context.
+     * @param document The document.
+     * @param declarations The `<xsl:key>` declarations of the key.
+     * @param documentNodes All the nodes of the document, in document order.
+     * @returns The nodes by key value. Each list of nodes is in document order.
+     */
+    private xsltBuildKeyIndex(
+        context: ExprContext,
+        document: XNode,
+        declarations: XNode[],
+        documentNodes: XNode[]
+    ): Map<string, XNode[]> {
+        const documentContext = context.clone([document], undefined, 0);
+        documentContext.root = document;
+        const declarationContexts = declarations.map((declaration) => {
+            const declarationContext = documentContext.clone();
+            declarationContext.knownNamespaces = this.xsltModuleNamespaces(context, declaration);
+            return declarationContext;
+        });
+        const matchedNodes = declarations.map((declaration, i) => (
+            new Set(this.xsltPatternNodes(
+                this.xPath.xPathParse(xmlGetAttribute(declaration, 'match')),
+                declarationContexts[i],
+                documentNodes
+            ))
+        ));
+
+        const index = new Map<string, XNode[]>();
+        for (const node of documentNodes) {
+            for (let i = 0; i < declarations.length; i++) {
+                if (!matchedNodes[i].has(node)) {
+                    continue;
+                }
+
+                const useValue = this.xPath.xPathEval(
+                    xmlGetAttribute(declarations[i], 'use'),
+                    declarationContexts[i].clone([node], undefined, 0)
+                );
+                const keyValues: string[] = useValue instanceof NodeSetValue ?
+                    useValue.nodeSetValue().map((n: XNode) => xmlValue(n)) :
+                    [useValue.stringValue()];
+                for (const keyValue of keyValues) {
+                    const nodes = index.get(keyValue);
+                    if (nodes === undefined) {
+                        index.set(keyValue, [node]);
+                    } else if (nodes[nodes.length - 1] !== node) {
+                        nodes.push(node);
+                    }
+                }
+            }
+        }
+
+        return index;
+    }
+
+    /**
+     * Finds all the nodes of a document matching a pattern. Relative
+     * location paths are evaluated from every node of the document, so
+     * a node matches if it is selected from any of its ancestors.
+     * @param expression The parsed pattern.
+     * @param documentContext An Expression Context pointing to the document node.
+     * @param documentNodes All the nodes of the document.
+     * @returns The matching nodes, possibly repeated.
+     */
+    private xsltPatternNodes(expression: Expression, documentContext: ExprContext, documentNodes: XNode[]): XNode[] {
+        if (expression instanceof UnionExpr) {
+            return this.xsltPatternNodes(expression.expr1, documentContext, documentNodes).concat(
+                this.xsltPatternNodes(expression.expr2, documentContext, documentNodes)
+            );
+        }
+
+        if (expression instanceof LocationExpr && !expression.absolute) {
+            const nodes: XNode[] = [];
+            for (const node of documentNodes) {
+                if (node.nodeType === DOM_ELEMENT_NODE || node.nodeType === DOM_DOCUMENT_NODE) {
+                    nodes.push(...expression.evaluate(documentContext.clone([node], undefined, 0)).nodeSetValue());
+                }
+            }
+
+            return nodes;
+        }
+
+        return expression.evaluate(documentContext).nodeSetValue();
+    }
+
+    /**
+     * Tests whether a node matches a pattern. Relative location paths
+     * match a node if they select it from any of its ancestors. Location
+     * paths made of child, attribute, self and descendant steps are tested
+     * from the node up, one step at a time.
+     * @param expression The parsed pattern.
+     * @param node The node.
+     * @param context The Expression Context.
+     * @returns Whether the node matches.
+     */
+    private xsltMatchesPattern(expression: Expression, node: XNode, context: ExprContext): boolean {
+        if (expression instanceof UnionExpr) {
+            return (
+                this.xsltMatchesPattern(expression.expr1, node, context) ||
+                this.xsltMatchesPattern(expression.expr2, node, context)
+            );
+        }
+
+        const upwardAxes: string[] = [
+            xPathAxis.ATTRIBUTE,
+            xPathAxis.CHILD,
+            xPathAxis.DESCENDANT,
+            xPathAxis.DESCENDANT_OR_SELF,
+            xPathAxis.SELF
+        ];
+        if (expression instanceof LocationExpr && expression.steps.every((step) => upwardAxes.includes(step.axis))) {
+            return this.xsltMatchesSteps(expression, expression.steps.length - 1, node, context);
+        }
+
+        if (expression instanceof LocationExpr && !expression.absolute) {
+            for (let ancestor = node.parentNode; ancestor; ancestor = ancestor.parentNode) {
+                if (expression.evaluate(context.clone([ancestor], undefined, 0)).nodeSetValue().includes(node)) {
+                    return true;
+                }
+            }
+
+            return false;
+        }
+
+        return expression.evaluate(context.clone([node], undefined, 0)).nodeSetValue().includes(node);
+    }
+
+    /**
+     * Tests whether a node is selected by the steps of a location path
+     * pattern up to a given one: the node must be selected by that step from
+     * some node, its parent for a child or attribute step, which in turn
+     * must match the previous steps.
+     * @param expression The location path pattern.
+     * @param index The index of the last step to test.
+     * @param node The node.
+     * @param context The Expression Context.
+     * @returns Whether the node matches.
+     */
+    private xsltMatchesSteps(expression: LocationExpr, index: number, node: XNode, context: ExprContext): boolean {
+        if (index < 0) {
+            return !expression.absolute || node.nodeType === DOM_DOCUMENT_NODE;
+        }
+
+        const step = expression.steps[index];
+        let origin: XNode;
+        switch (step.axis) {
+            case xPathAxis.SELF:
+                origin = node;
+                break;
+            case xPathAxis.ATTRIBUTE:
+            case xPathAxis.CHILD:
+                origin = node.parentNode;
+                break;
+            default:
+                // Descendant steps can start from any ancestor.
+                for (
+                    origin = step.axis === xPathAxis.DESCENDANT_OR_SELF ? node : node.parentNode;
+                    origin;
+                    origin = origin.parentNode
+                ) {
+                    if (
+                        this.xsltStepSelects(step, origin, node, context) &&
+                        this.xsltMatchesSteps(expression, index - 1, origin, context)
+                    ) {
+                        return true;
+                    }
+                }
+
+                return false;
+        }
+
+        return (
+            !!origin &&
+            this.xsltStepSelects(step, origin, node, context) &&
+            this.xsltMatchesSteps(expression, index - 1, origin, context)
+        );
+    }
+
+    /**
+     * Tests whether a location step selects a node from a given node, which
+     * must be on the axis of the step. Only positional predicates need the
+     * other nodes of the axis.
+     * @param step The location step.
+     * @param origin The node the step starts from.
+     * @param node The node.
+     * @param context The Expression Context.
+     * @returns Whether the step selects the node.
+     */
+    private xsltStepSelects(step: StepExpr, origin: XNode, node: XNode, context: ExprContext): boolean {
+        const isAttribute = node.nodeType === DOM_ATTRIBUTE_NODE;
+        if (step.axis === xPathAxis.ATTRIBUTE ? !isAttribute : isAttribute && step.axis !== xPathAxis.SELF) {
+            return false;
+        }
+
+        const selectsFromOrigin = () => step.evaluate(context.clone([origin], undefined, 0)).nodeSetValue().includes(node);
+        if (step.hasPositionalPredicate) {
+            return selectsFromOrigin();
+        }
+
+        const nodeContext = context.clone([node], undefined, 0);
+        if (!step.nodeTest.evaluate(nodeContext).booleanValue()) {
+            return false;
+        }
+
+        for (const predicate of step.predicate as PredicateExpr[]) {
+            const value = predicate.expression.evaluate(nodeContext);
+            if (value.type === 'number') {
+                return selectsFromOrigin();
+            }
+
+            if (!value.booleanValue()) {
+                return false;
+            }
+        }
+
+        return true;
+    }
+
     /**
      * Sets parameters defined by xsl:with-param child nodes of the
      * current template node, in the current input context. This happens
@@ -919,7 +3513,7 @@ export class Xslt {
     // Test if the given element is an XSLT element, optionally the one with the given name
     protected isXsltElement(element: any, opt_wantedName?: string) {
         if (opt_wantedName && element.localName != opt_wantedName) return false;
-        if (element.namespaceUri) return element.namespaceUri === 'http://www.w3.org/1999/XSL/Transform';
+        if (element.namespaceUri) return element.namespaceUri === XSLT_NAMESPACE_URI;
         return element.prefix === 'xsl'; // backwards compatibility with earlier versions of xslt-processor
     }
 }
@@ -0,0 +1,74 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('xsl:analyze-string', () => {
+    const transform = (template: string, version: string = '2.0') => xsltTransform(
+        '<doc>From 2024-01-31 to 2024-02-29.</doc>',
+        xsltStylesheet(`<xsl:template match="/"><out>${template}</out></xsl:template>`, { version })
+    );
+
+    it('processes the matching and non-matching substrings in order', () => {
+        assert.equal(
+            transform(
+                `<xsl:analyze-string select="/doc" regex="(\\d{{4}})-(\\d{{2}})-(\\d{{2}})">
+                    <xsl:matching-substring>
+                        <date year="{regex-group(1)}" month="{regex-group(2)}" day="{regex-group(3)}" position="{position()}/{last()}">
+                            <xsl:value-of select="." />
+                        </date>
+                    </xsl:matching-substring>
+                    <xsl:non-matching-substring><text><xsl:value-of select="." /></text></xsl:non-matching-substring>
+                </xsl:analyze-string>`
+            ),
+            '<out><text>From </text>' +
+                '<date year="2024" month="01" day="31" position="2/5">2024-01-31</date><text> to </text>' +
+                '<date year="2024" month="02" day="29" position="4/5">2024-02-29</date><text>.</text></out>'
+        );
+    });
+
+    it('supports the XPath flags', () => {
+        assert.equal(
+            transform(
+                `<xsl:analyze-string select="/doc" regex="  FROM \\s  " flags="ix">
+                    <xsl:matching-substring><from><xsl:value-of select="regex-group(0)" /></from></xsl:matching-substring>
+                </xsl:analyze-string>
+                <xsl:analyze-string select="'1+1=2'" regex="1+1" flags="q">
+                    <xsl:matching-substring><sum /></xsl:matching-substring>
+                </xsl:analyze-string>`
+            ),
+            '<out><from>From </from><sum/></out>'
+        );
+        assert.equal(
+            transform(
+                `<xsl:analyze-string select="/doc" regex="to\\ 2024 - [ 0-9]{{2}}" flags="x">
+                    <xsl:matching-substring><to><xsl:value-of select="." /></to></xsl:matching-substring>
+                </xsl:analyze-string>`
+            ),
+            '<out><to>to 2024-02</to></out>'
+        );
+    });
+
+    it('reports invalid regular expressions', () => {
+        assert.throws(
+            () => transform('<xsl:analyze-string select="/doc" regex="x" />', '1.0'),
+            /<xsl:analyze-string> requires XSLT version 2.0 or later/
+        );
+        assert.throws(
+            () => transform('<xsl:analyze-string select="/doc" regex="a*" />'),
+            /The regular expression of <xsl:analyze-string> matches an empty string: a\*/
+        );
+        assert.throws(
+            () => transform('<xsl:analyze-string select="/doc" regex="(" />'),
+            /Invalid regular expression in <xsl:analyze-string>: \(/
+        );
+        assert.throws(
+            () => transform('<xsl:analyze-string select="/doc" regex="x" flags="g" />'),
+            /Invalid regular expression syntax: g/
+        );
+        assert.throws(
+            () => transform('<xsl:analyze-string select="/doc" regex="\\d{4" />'),
+            /Unterminated expression in attribute value template: \\d\{4/
+        );
+    });
+});
@@ -0,0 +1,73 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('xsl:apply-templates', () => {
+    const xmlString = '<list><item price="3">b</item><item price="10">a</item><item price="1">c</item></list>';
+
+    const transform = (templates: string) => xsltTransform(xmlString, xsltStylesheet(templates));
+
+    it('sorts the selected nodes, which drives position()', () => {
+        const outXmlString = transform(
+            `<xsl:template match="/">
+                <out>
+                    <xsl:apply-templates select="/list/item">
+                        <xsl:sort select="." />
+                    </xsl:apply-templates>
+                </out>
+            </xsl:template>
+            <xsl:template match="item">
+                <i n="{position()}" of="{last()}"><xsl:value-of select="." /></i>
+            </xsl:template>`
+        );
+
+        assert.equal(
+            outXmlString,
+            '<out><i n="1" of="3">a</i><i n="2" of="3">b</i><i n="3" of="3">c</i></out>'
+        );
+    });
+
+    it('sorts by several keys and data types', () => {
+        const outXmlString = transform(
+            `<xsl:template match="/">
+                <out>
+                    <xsl:apply-templates select="/list/item">
+                        <xsl:sort select="@price" data-type="number" order="descending" />
+                    </xsl:apply-templates>
+                </out>
+            </xsl:template>
+            <xsl:template match="item">
+                <i><xsl:value-of select="@price" /></i>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<out><i>10</i><i>3</i><i>1</i></out>');
+    });
+
+    it('passes parameters to the invoked templates only', () => {
+        const outXmlString = transform(
+            `<xsl:template match="/">
+                <xsl:variable name="currency" select="'GBP'" />
+                <out>
+                    <xsl:apply-templates select="/list/item[1]" />
+                    <xsl:apply-templates select="/list/item[2]">
+                        <xsl:with-param name="currency" select="'EUR'" />
+                    </xsl:apply-templates>
+                    <xsl:apply-templates select="/list/item[3]" mode="plain" />
+                    <caller><xsl:value-of select="$currency" /></caller>
+                </out>
+            </xsl:template>
+            <xsl:template match="item">
+                <xsl:param name="currency" select="'USD'" />
+                <i><xsl:value-of select="$currency" /></i>
+            </xsl:template>
+            <xsl:template match="item" mode="plain">
+                <xsl:param name="currency" select="'JPY'" />
+                <i><xsl:value-of select="$currency" /></i>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<out><i>USD</i><i>EUR</i><i>JPY</i><caller>GBP</caller></out>');
+    });
+});
@@ -0,0 +1,100 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { dom } from 'isomorphic-jsx';
+import React from 'react';
+
+import { Xslt } from '../src/xslt';
+import { XmlParser } from '../src/dom';
+
+// Just touching the `dom`, otherwise Babel prunes the import.
+console.log(dom);
+
+describe('xsl:attribute-set', () => {
+    const xmlString = (
+        <document>
+            <paragraph>Hello</paragraph>
+        </document>
+    );
+
+    const attributeSets = [
+        <xsl:attribute-set name="base">
+            <xsl:attribute name="class">base</xsl:attribute>
+            <xsl:attribute name="lang">en</xsl:attribute>
+        </xsl:attribute-set>,
+        <xsl:attribute-set name="title" use-attribute-sets="base">
+            <xsl:attribute name="class">title</xsl:attribute>
+        </xsl:attribute-set>,
+        <xsl:attribute-set name="title">
+            <xsl:attribute name="id">
+                <xsl:value-of select="concat('title-', count(//paragraph))" />
+            </xsl:attribute>
+        </xsl:attribute-set>
+    ];
+
+    it('is used by literal result elements and xsl:element', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                {attributeSets}
+                <xsl:template match="/">
+                    <html xsl:use-attribute-sets="title" dir="ltr">
+                        <xsl:element name="body" use-attribute-sets="base">
+                            <xsl:attribute name="lang">pt</xsl:attribute>
+                        </xsl:element>
+                    </html>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(
+            outXmlString,
+            '<html class="title" lang="en" id="title-1" dir="ltr"><body class="base" lang="pt"/></html>'
+        );
+    });
+
+    it('is used by xsl:copy', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                {attributeSets}
+                <xsl:template match="/">
+                    <xsl:for-each select="//paragraph">
+                        <xsl:copy use-attribute-sets="base">
+                            <xsl:for-each select="node()">
+                                <xsl:copy />
+                            </xsl:for-each>
+                        </xsl:copy>
+                    </xsl:for-each>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<paragraph class="base" lang="en">Hello</paragraph>');
+    });
+
+    it('reports circular references', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:attribute-set name="a" use-attribute-sets="b" />
+                <xsl:attribute-set name="b" use-attribute-sets="a" />
+                <xsl:template match="/">
+                    <html xsl:use-attribute-sets="a" />
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        assert.throws(
+            () => xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString)),
+            /Attribute set "a" uses itself/
+        );
+    });
+});
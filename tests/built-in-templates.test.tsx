@@ -0,0 +1,51 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('built-in template rules', () => {
+    const transform = (xmlString: string, templates: string) => xsltTransform(xmlString, xsltStylesheet(templates));
+
+    it('copies the text of a document without template rules', () => {
+        assert.equal(transform('<doc><title>T</title><p>a<b>x</b>c</p></doc>', ''), 'Taxc');
+    });
+
+    it('recurses into elements without a template rule', () => {
+        const outXmlString = transform(
+            '<doc><title>T</title><p>a<b>x</b>c<!--note--><?render fast?></p></doc>',
+            `<xsl:template match="b">
+                <strong><xsl:apply-templates /></strong>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, 'Ta<strong>x</strong>c');
+    });
+
+    it('copies the value of attributes', () => {
+        const outXmlString = transform(
+            '<doc><p id="1">a</p><p id="2">b</p></doc>',
+            `<xsl:template match="/">
+                <ids><xsl:apply-templates select="//p/@id" /></ids>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<ids>12</ids>');
+    });
+
+    it('keeps the mode when recursing', () => {
+        const outXmlString = transform(
+            '<doc><p>a<b>x</b></p></doc>',
+            `<xsl:template match="/">
+                <out><xsl:apply-templates mode="summary" /></out>
+            </xsl:template>
+            <xsl:template match="b" mode="summary">
+                <bold />
+            </xsl:template>
+            <xsl:template match="b">
+                <strong />
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<out>a<bold/></out>');
+    });
+});
@@ -0,0 +1,95 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { XmlParser } from '../src/dom';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('document()', () => {
+    const files: { [uri: string]: string } = {
+        'http://example.com/xsl/data/colors.xml': '<colors><color id="r">red</color><color id="g">green</color></colors>',
+        'http://example.com/in/parts/a.xml': '<part>A</part>',
+        'http://example.com/in/parts/b.xml': '<part>B</part>',
+        'http://example.com/xsl/parts/a.xml': '<part>stylesheet A</part>'
+    };
+
+    const transform = (xmlString: string, templates: string, loaded: string[] = []) => {
+        const xsltClass = new Xslt({
+            documentResolver: (uri) => {
+                loaded.push(uri);
+                return files[uri];
+            }
+        });
+        const xmlParser = new XmlParser();
+        const xml = xmlParser.xmlParse(xmlString);
+        xml.baseUri = 'http://example.com/in/doc.xml';
+        const xslt = xmlParser.xmlParse(xsltStylesheet(templates));
+        xslt.baseUri = 'http://example.com/xsl/main.xsl';
+        return xsltTransform(xml, xslt, xsltClass);
+    };
+
+    it('looks up values in a document relative to the stylesheet, loaded once', () => {
+        const loaded: string[] = [];
+        const outXmlString = transform(
+            '<items><item color="g" /><item color="r" /></items>',
+            `<xsl:template match="/">
+                <out>
+                    <xsl:for-each select="/items/item">
+                        <xsl:variable name="id" select="@color" />
+                        <c><xsl:value-of select="document('data/colors.xml')/colors/color[@id = $id]" /></c>
+                    </xsl:for-each>
+                </out>
+            </xsl:template>`,
+            loaded
+        );
+
+        assert.equal(outXmlString, '<out><c>green</c><c>red</c></out>');
+        assert.deepEqual(loaded, ['http://example.com/xsl/data/colors.xml']);
+    });
+
+    it('returns the stylesheet for an empty URI', () => {
+        const outXmlString = transform(
+            '<items />',
+            `<xsl:template match="/">
+                <out><xsl:value-of select="count(document('')//xsl:template)" /></out>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<out>1</out>');
+    });
+
+    it('resolves the URIs of a node-set against the documents of the nodes', () => {
+        const outXmlString = transform(
+            '<refs><ref href="parts/a.xml" /><ref href="parts/b.xml" /><ref href="parts/a.xml" /></refs>',
+            `<xsl:template match="/">
+                <out>
+                    <xsl:for-each select="document(/refs/ref/@href)/part">
+                        <p><xsl:value-of select="." /></p>
+                    </xsl:for-each>
+                    <s><xsl:value-of select="document(/refs/ref[1]/@href, document(''))/part" /></s>
+                    <s><xsl:value-of select="document('parts/b.xml', /refs)/part" /></s>
+                </out>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<out><p>A</p><p>B</p><s>stylesheet A</s><s>B</s></out>');
+    });
+
+    it('reports documents that cannot be loaded', () => {
+        assert.throws(
+            () => transform('<items />', `<xsl:template match="/"><xsl:value-of select="document('missing.xml')" /></xsl:template>`),
+            /Document "http:\/\/example.com\/xsl\/missing.xml" could not be resolved/
+        );
+
+        const xmlParser = new XmlParser();
+        assert.throws(
+            () => new Xslt().xsltProcess(
+                xmlParser.xmlParse('<items />'),
+                xmlParser.xmlParse(`<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                    <xsl:template match="/"><xsl:value-of select="document('data.xml')" /></xsl:template>
+                </xsl:stylesheet>`)
+            ),
+            /Cannot load document "data.xml": no document resolver was set in the options/
+        );
+    });
+});
@@ -0,0 +1,82 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('namespaces of xsl:element and xsl:attribute', () => {
+    const transform = (template: string, xsltClass: Xslt = new Xslt()) => xsltTransform(
+        '<doc />',
+        xsltStylesheet(
+            `<xsl:variable name="atom" select="'http://www.w3.org/2005/Atom'" />
+            <xsl:template match="/">${template}</xsl:template>`,
+            { 'xmlns:svg': 'http://www.w3.org/2000/svg' }
+        ),
+        xsltClass
+    );
+
+    it('uses the namespace attribute, as an attribute value template', () => {
+        const xsltClass = new Xslt();
+        const outXmlString = transform(
+            `<xsl:element name="feed" namespace="{$atom}">
+                <xsl:attribute name="xml:lang">en</xsl:attribute>
+                <xsl:element name="title" namespace="{$atom}">Posts</xsl:element>
+                <xsl:element name="atom:link" namespace="{$atom}" />
+                <xsl:element name="plain" />
+            </xsl:element>`,
+            xsltClass
+        );
+
+        assert.equal(
+            outXmlString,
+            '<feed xmlns="http://www.w3.org/2005/Atom" xmlns:atom="http://www.w3.org/2005/Atom" xml:lang="en">' +
+                '<title>Posts</title><atom:link/><plain xmlns=""/></feed>'
+        );
+
+        const feed = xsltClass.outputDocument.transformedChildNodes[0];
+        assert.equal(feed.namespaceUri, 'http://www.w3.org/2005/Atom');
+        assert.equal(feed.prefix, null);
+        assert.equal(feed.localName, 'feed');
+    });
+
+    it('resolves the prefixes in scope of the instruction', () => {
+        const xsltClass = new Xslt();
+        const outXmlString = transform(
+            `<xsl:element name="svg:svg">
+                <xsl:element name="svg:use" xmlns:xlink="http://www.w3.org/1999/xlink">
+                    <xsl:attribute name="xlink:href">#shape</xsl:attribute>
+                </xsl:element>
+            </xsl:element>`,
+            xsltClass
+        );
+
+        assert.equal(
+            outXmlString,
+            '<svg:svg xmlns:svg="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink"><svg:use xlink:href="#shape"/></svg:svg>'
+        );
+
+        const use = xsltClass.outputDocument.transformedChildNodes[0].transformedChildNodes.find((n) => n.localName === 'use');
+        const href = use.transformedChildNodes.find((n) => n.localName === 'href');
+        assert.equal(use.namespaceUri, 'http://www.w3.org/2000/svg');
+        assert.equal(href.namespaceUri, 'http://www.w3.org/1999/xlink');
+        assert.equal(href.prefix, 'xlink');
+    });
+
+    it('makes up a prefix for namespaced attributes without one', () => {
+        assert.equal(
+            transform(
+                `<xsl:element name="item">
+                    <xsl:attribute name="id" namespace="urn:ids">1</xsl:attribute>
+                    <xsl:attribute name="ref" namespace="urn:ids">2</xsl:attribute>
+                    <xsl:attribute name="svg:x" namespace="">3</xsl:attribute>
+                </xsl:element>`
+            ),
+            '<item xmlns:ns0="urn:ids" ns0:id="1" ns0:ref="2" x="3"/>'
+        );
+    });
+
+    it('reports undeclared prefixes and invalid names', () => {
+        assert.throws(() => transform('<xsl:element name="atom:feed" />'), /Namespace prefix "atom" is not declared/);
+        assert.throws(() => transform('<xsl:element name="{concat(\'a b\', \'\')}" />'), /Invalid name for <xsl:element>: "a b"/);
+    });
+});
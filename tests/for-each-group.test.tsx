@@ -0,0 +1,89 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('xsl:for-each-group', () => {
+    const xmlString =
+        '<staff>' +
+        '<person dept="sales" name="Ann" /><person dept="it" name="Bob" /><person dept="sales" name="Cid" />' +
+        '<person dept="hr" name="Dee" /><person dept="hr" name="Eve" /><person dept="sales" name="Fay" />' +
+        '</staff>';
+
+    const transform = (template: string, version: string = '2.0') => xsltTransform(
+        xmlString,
+        xsltStylesheet(`<xsl:template match="/"><out>${template}</out></xsl:template>`, { version })
+    );
+
+    it('groups by key, in order of first appearance', () => {
+        assert.equal(
+            transform(
+                `<xsl:for-each-group select="/staff/person" group-by="@dept">
+                    <dept name="{current-grouping-key()}" first="{@name}" position="{position()}/{last()}">
+                        <xsl:for-each select="current-group()"><p><xsl:value-of select="@name" /></p></xsl:for-each>
+                    </dept>
+                </xsl:for-each-group>`
+            ),
+            '<out>' +
+                '<dept name="sales" first="Ann" position="1/3"><p>Ann</p><p>Cid</p><p>Fay</p></dept>' +
+                '<dept name="it" first="Bob" position="2/3"><p>Bob</p></dept>' +
+                '<dept name="hr" first="Dee" position="3/3"><p>Dee</p><p>Eve</p></dept>' +
+                '</out>'
+        );
+    });
+
+    it('sorts the groups', () => {
+        assert.equal(
+            transform(
+                `<xsl:for-each-group select="/staff/person" group-by="@dept">
+                    <xsl:sort select="count(current-group())" data-type="number" order="descending" />
+                    <xsl:sort select="current-grouping-key()" />
+                    <dept name="{current-grouping-key()}" />
+                </xsl:for-each-group>`
+            ),
+            '<out><dept name="sales"/><dept name="hr"/><dept name="it"/></out>'
+        );
+    });
+
+    it('groups adjacent nodes with the same key', () => {
+        assert.equal(
+            transform(
+                `<xsl:for-each-group select="/staff/person" group-adjacent="@dept">
+                    <dept name="{current-grouping-key()}" size="{count(current-group())}" />
+                </xsl:for-each-group>`
+            ),
+            '<out><dept name="sales" size="1"/><dept name="it" size="1"/><dept name="sales" size="1"/>' +
+                '<dept name="hr" size="2"/><dept name="sales" size="1"/></out>'
+        );
+    });
+
+    it('starts or ends groups at the nodes matching a pattern', () => {
+        assert.equal(
+            transform(
+                `<xsl:for-each-group select="/staff/person" group-starting-with="person[@dept = 'hr']">
+                    <group first="{@name}" size="{count(current-group())}" />
+                </xsl:for-each-group>`
+            ),
+            '<out><group first="Ann" size="3"/><group first="Dee" size="1"/><group first="Eve" size="2"/></out>'
+        );
+        assert.equal(
+            transform(
+                `<xsl:for-each-group select="/staff/person" group-ending-with="person[@dept = 'it']">
+                    <group first="{@name}" size="{count(current-group())}" />
+                </xsl:for-each-group>`
+            ),
+            '<out><group first="Ann" size="2"/><group first="Cid" size="4"/></out>'
+        );
+    });
+
+    it('reports invalid grouping', () => {
+        assert.throws(
+            () => transform('<xsl:for-each-group select="/staff/person" group-by="@dept" />', '1.0'),
+            /<xsl:for-each-group> requires XSLT version 2.0 or later/
+        );
+        assert.throws(
+            () => transform('<xsl:for-each-group select="/staff/person" />'),
+            /requires exactly one of the "group-by", "group-adjacent", "group-starting-with" and "group-ending-with" attributes/
+        );
+    });
+});
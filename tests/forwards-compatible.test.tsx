@@ -0,0 +1,91 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('forwards-compatible processing', () => {
+    const transform = (version: string, contents: string) => xsltTransform(
+        '<doc><a>1</a></doc>',
+        xsltStylesheet(contents, { version, 'xmlns:my': 'urn:my', 'exclude-result-prefixes': 'my' })
+    );
+
+    it('runs the fallback of unknown instructions', () => {
+        const outXmlString = transform(
+            '4.0',
+            `<xsl:template match="/">
+                <out>
+                    <xsl:frobnicate select="/doc/a">
+                        <xsl:fallback><fallback><xsl:value-of select="/doc/a" /></fallback></xsl:fallback>
+                        <xsl:fallback><second /></xsl:fallback>
+                    </xsl:frobnicate>
+                    <xsl:if test="true()">
+                        <xsl:fallback><ignored /></xsl:fallback>
+                    </xsl:if>
+                </out>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<out><fallback>1</fallback><second/></out>');
+    });
+
+    it('is used for versions between the implemented ones', () => {
+        const outXmlString = transform(
+            '1.1',
+            `<xsl:template match="/">
+                <out>
+                    <version><xsl:value-of select="system-property('xsl:version')" /></version>
+                    <xsl:frobnicate><xsl:fallback><fallback /></xsl:fallback></xsl:frobnicate>
+                </out>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<out><version>1</version><fallback/></out>');
+    });
+
+    it('only fails on unknown instructions without fallback when they run', () => {
+        const template = (test: string) => `<xsl:template match="/">
+            <out><xsl:if test="${test}"><xsl:frobnicate /></xsl:if></out>
+        </xsl:template>`;
+
+        assert.equal(transform('3.0', template('false()')), '<out/>');
+        assert.throws(() => transform('3.0', template('true()')), /<xsl:frobnicate> is not supported, and has no <xsl:fallback>/);
+    });
+
+    it('ignores unknown top-level declarations and user-defined data', () => {
+        const outXmlString = transform(
+            '3.1',
+            `<xsl:frobnicate name="x" />
+            <my:data><v>2</v></my:data>
+            <xsl:template match="/">
+                <out><xsl:value-of select="document('')/*/my:data/v" /></out>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<out>2</out>');
+    });
+
+    it('reports unknown XSLT elements in stylesheets of the implemented versions', () => {
+        assert.throws(
+            () => transform(
+                '1.0',
+                `<xsl:template match="/">
+                    <out><xsl:frobnicate><xsl:fallback>x</xsl:fallback></xsl:frobnicate></out>
+                </xsl:template>`
+            ),
+            /<xsl:frobnicate> is not a known XSLT element/
+        );
+        assert.throws(
+            () => transform('1.0', '<xsl:frobnicate /><xsl:template match="/" />'),
+            /<xsl:frobnicate> is not a known XSLT element/
+        );
+        assert.throws(
+            () => transform(
+                '2.0',
+                `<xsl:template match="/">
+                    <out><xsl:frobnicate><xsl:fallback>x</xsl:fallback></xsl:frobnicate></out>
+                </xsl:template>`
+            ),
+            /<xsl:frobnicate> is not a known XSLT element/
+        );
+    });
+});
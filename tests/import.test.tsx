@@ -0,0 +1,267 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { dom } from 'isomorphic-jsx';
+import React from 'react';
+
+import { Xslt } from '../src/xslt';
+import { XmlParser } from '../src/dom';
+
+// Just touching the `dom`, otherwise Babel prunes the import.
+console.log(dom);
+
+describe('xsl:import', () => {
+    const baseStylesheet = (
+        <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+            <xsl:variable name="brand" select="'Base'" />
+            <xsl:template match="/">
+                <page>
+                    <xsl:apply-templates select="//title" />
+                    <xsl:apply-templates select="//item" />
+                </page>
+            </xsl:template>
+            <xsl:template match="title">
+                <h1>
+                    <xsl:value-of select="$brand" />
+                </h1>
+            </xsl:template>
+            <xsl:template match="item">
+                <li>
+                    <xsl:value-of select="." />
+                </li>
+            </xsl:template>
+        </xsl:stylesheet>
+    );
+
+    const xmlString = (
+        <list>
+            <title>Products</title>
+            <item>A</item>
+            <item special="yes">B</item>
+            <item>C</item>
+        </list>
+    );
+
+    const stylesheetResolver = (href: string) => {
+        const modules = {
+            'base.xsl': baseStylesheet,
+            'fallback.xsl': (
+                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                    <xsl:template match="item">
+                        <fallback />
+                    </xsl:template>
+                </xsl:stylesheet>
+            ),
+            'override.xsl': (
+                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                    <xsl:template match="item">
+                        <override>
+                            <xsl:apply-imports />
+                        </override>
+                    </xsl:template>
+                </xsl:stylesheet>
+            ),
+            'prefixed.xsl': (
+                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:p="urn:imported" exclude-result-prefixes="p">
+                    <xsl:template match="p:item">
+                        <imported>
+                            <xsl:value-of select="." />
+                        </imported>
+                    </xsl:template>
+                </xsl:stylesheet>
+            ),
+            'loop.xsl': (
+                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                    <xsl:import href="loop.xsl" />
+                </xsl:stylesheet>
+            )
+        };
+
+        return modules[href];
+    };
+
+    it('uses the templates of the imported stylesheet', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="base.xsl" />
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<page><h1>Base</h1><li>A</li><li>B</li><li>C</li></page>');
+    });
+
+    it('overrides templates and variables of the imported stylesheet', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="base.xsl" />
+                <xsl:variable name="brand" select="'Acme'" />
+                <xsl:template match="item">
+                    <li class="acme">
+                        <xsl:value-of select="." />
+                    </li>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(
+            outXmlString,
+            '<page><h1>Acme</h1><li class="acme">A</li><li class="acme">B</li><li class="acme">C</li></page>'
+        );
+    });
+
+    it('overrides the root template of the imported stylesheet', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="base.xsl" />
+                <xsl:template match="/">
+                    <summary>
+                        <xsl:value-of select="count(//item)" />
+                    </summary>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<summary>3</summary>');
+    });
+
+    it('calls the overridden template with xsl:apply-imports', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="base.xsl" />
+                <xsl:template match="item[@special]">
+                    <strong>
+                        <xsl:apply-imports />
+                    </strong>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<page><h1>Base</h1><li>A</li><strong><li>B</li></strong><li>C</li></page>');
+    });
+
+    it('calls only the template rules imported into the module of the current one with xsl:apply-imports', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="fallback.xsl" />
+                <xsl:import href="override.xsl" />
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(<item>A</item>), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<override></override>');
+    });
+
+    it('resolves the namespace prefixes of each module with its own declarations', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:p="urn:main" exclude-result-prefixes="p">
+                <xsl:import href="prefixed.xsl" />
+                <xsl:template match="/">
+                    <out>
+                        <xsl:apply-templates select="/list/*" />
+                    </out>
+                </xsl:template>
+                <xsl:template match="p:item">
+                    <main>
+                        <xsl:value-of select="." />
+                    </main>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+        const xml = (
+            <list xmlns:m="urn:main" xmlns:i="urn:imported">
+                <m:item>M</m:item>
+                <i:item>I</i:item>
+            </list>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xml), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<out><main>M</main><imported>I</imported></out>');
+    });
+
+    it('starts each transformation with fresh import precedences', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="base.xsl" />
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+        assert.notEqual(xsltClass.importPrecedences.size, 0);
+
+        xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(baseStylesheet));
+        assert.equal(xsltClass.importPrecedences.size, 0);
+    });
+
+    it('leaves the importing stylesheet unchanged', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="base.xsl" />
+                <xsl:variable name="brand" select="'Acme'" />
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        const stylesheet = xmlParser.xmlParse(xsltString);
+        const topLevelNodes = stylesheet.documentElement.childNodes.slice();
+
+        const first = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), stylesheet);
+        assert.deepEqual(stylesheet.documentElement.childNodes, topLevelNodes);
+        assert.equal(xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), stylesheet), first);
+        assert.equal(first, '<page><h1>Acme</h1><li>A</li><li>B</li><li>C</li></page>');
+    });
+
+    it('reports a stylesheet importing itself', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="loop.xsl" />
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        assert.throws(
+            () => xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString)),
+            /imports itself/
+        );
+    });
+
+    it('requires a stylesheet resolver', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="base.xsl" />
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        assert.throws(
+            () => xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString)),
+            /no stylesheet resolver/
+        );
+    });
+});
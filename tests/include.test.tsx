@@ -0,0 +1,113 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { dom } from 'isomorphic-jsx';
+import React from 'react';
+
+import { Xslt } from '../src/xslt';
+import { XmlParser } from '../src/dom';
+
+// Just touching the `dom`, otherwise Babel prunes the import.
+console.log(dom);
+
+describe('xsl:include', () => {
+    const xmlString = (
+        <list>
+            <title>Products</title>
+            <item>A</item>
+            <item>B</item>
+        </list>
+    );
+
+    const stylesheetResolver = (href: string) => {
+        const modules = {
+            'items.xsl': (
+                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                    <xsl:include href="title.xsl" />
+                    <xsl:template match="item">
+                        <li>
+                            <xsl:value-of select="." />
+                        </li>
+                    </xsl:template>
+                </xsl:stylesheet>
+            ),
+            'title.xsl': (
+                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                    <xsl:variable name="prefix" select="'List: '" />
+                    <xsl:template match="title">
+                        <h1>
+                            <xsl:value-of select="concat($prefix, .)" />
+                        </h1>
+                    </xsl:template>
+                </xsl:stylesheet>
+            ),
+            'a.xsl': (
+                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                    <xsl:include href="b.xsl" />
+                </xsl:stylesheet>
+            ),
+            'b.xsl': (
+                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                    <xsl:include href="a.xsl" />
+                </xsl:stylesheet>
+            )
+        };
+
+        return modules[href];
+    };
+
+    it('splices the included stylesheets, recursively', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:template match="/">
+                    <page>
+                        <xsl:apply-templates select="//title" />
+                        <xsl:apply-templates select="//item" />
+                    </page>
+                </xsl:template>
+                <xsl:include href="items.xsl" />
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<page><h1>List: Products</h1><li>A</li><li>B</li></page>');
+    });
+
+    it('gives included templates the precedence of the including stylesheet', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:import href="items.xsl" />
+                <xsl:include href="title.xsl" />
+                <xsl:template match="/">
+                    <page>
+                        <xsl:apply-templates select="//title" />
+                    </page>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<page><h1>List: Products</h1></page>');
+    });
+
+    it('reports recursive includes', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:include href="a.xsl" />
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt({ stylesheetResolver });
+        const xmlParser = new XmlParser();
+        assert.throws(
+            () => xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString)),
+            /includes itself/
+        );
+    });
+});
@@ -0,0 +1,75 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { XmlParser, xmlText } from '../src/dom';
+import { XsltOptions } from '../src/xslt/xslt-options';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('indentation', () => {
+    const xmlString = '<doc><title>T</title><p>a<b>x</b>c</p></doc>';
+
+    const transform = (output: string, template: string, options: Partial<XsltOptions> = {}) => xsltTransform(
+        xmlString,
+        xsltStylesheet(`${output}<xsl:template match="/">${template}</xsl:template>`),
+        new Xslt({ selfClosingTags: true, ...options })
+    );
+
+    it('indents child elements with indent="yes"', () => {
+        assert.equal(
+            transform(
+                '<xsl:output indent="yes" omit-xml-declaration="no" />',
+                '<page><head><title><xsl:value-of select="/doc/title" /></title></head><body /></page>'
+            ),
+            '<?xml version="1.0" encoding="UTF-8"?>\n' +
+                '<page>\n' +
+                '  <head>\n' +
+                '    <title>T</title>\n' +
+                '  </head>\n' +
+                '  <body/>\n' +
+                '</page>'
+        );
+    });
+
+    it('does not add whitespace to mixed content', () => {
+        assert.equal(
+            transform('<xsl:output indent="yes" />', '<page><xsl:copy-of select="/doc/p" /></page>'),
+            '<page>\n  <p>a<b>x</b>c</p>\n</page>'
+        );
+    });
+
+    it('preserves the content of xml:space="preserve" elements', () => {
+        assert.equal(
+            transform('<xsl:output indent="yes" />', '<page><code xml:space="preserve"><line /><line /></code></page>'),
+            '<page>\n  <code xml:space="preserve"><line/><line/></code>\n</page>'
+        );
+    });
+
+    it('does not indent around HTML inline elements', () => {
+        assert.equal(
+            transform(
+                '<xsl:output method="html" indent="yes" />',
+                '<html><body><div><img src="a.png" /><span /></div><p /></body></html>'
+            ),
+            '<html>\n  <body>\n    <div><img src="a.png"/><span/></div>\n    <p/>\n  </body>\n</html>'
+        );
+    });
+
+    it('uses the options to enable indentation and set its width and character', () => {
+        const template = '<page><head /></page>';
+
+        assert.equal(transform('', template, { indent: true, indentWidth: 4 }), '<page>\n    <head/>\n</page>');
+        assert.equal(transform('', template, { indent: true, indentWidth: 1, indentChar: '\t' }), '<page>\n\t<head/>\n</page>');
+        assert.equal(transform('<xsl:output indent="yes" />', template, { indent: false }), '<page><head/></page>');
+    });
+
+    it('indents the XML of a document', () => {
+        const xmlParser = new XmlParser();
+        const document = xmlParser.xmlParse('<doc><title>T</title><p>a<b>x</b>c</p></doc>');
+
+        assert.equal(
+            xmlText(document, { cData: false, escape: true, selfClosingTags: true, outputMethod: 'xml', indent: true }),
+            '<doc>\n  <title>T</title>\n  <p>a<b>x</b>c</p>\n</doc>'
+        );
+    });
+});
@@ -0,0 +1,153 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { dom } from 'isomorphic-jsx';
+import React from 'react';
+
+import { Xslt } from '../src/xslt';
+import { XmlParser } from '../src/dom';
+
+// Just touching the `dom`, otherwise Babel prunes the import.
+console.log(dom);
+
+describe('xsl:key', () => {
+    const xmlString = (
+        <library>
+            <book id="b1" category="fiction">
+                <title>Dune</title>
+                <tag>sf</tag>
+                <tag>classic</tag>
+            </book>
+            <book id="b2" category="poetry">
+                <title>Odes</title>
+                <tag>classic</tag>
+            </book>
+            <book id="b3" category="fiction">
+                <title>Emma</title>
+            </book>
+            <review book="b3">Witty</review>
+            <review book="b1">Epic</review>
+        </library>
+    );
+
+    it('groups nodes with the Muenchian method', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:key name="books-by-category" match="book" use="@category" />
+                <xsl:template match="/">
+                    <categories>
+                        <xsl:for-each select="//book[count(. | key('books-by-category', @category)[1]) = 1]">
+                            <category name="{@category}">
+                                <xsl:value-of select="count(key('books-by-category', @category))" />
+                            </category>
+                        </xsl:for-each>
+                    </categories>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(
+            outXmlString,
+            '<categories><category name="fiction">2</category><category name="poetry">1</category></categories>'
+        );
+    });
+
+    it('looks up cross references', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:key name="books" match="book" use="@id" />
+                <xsl:template match="/">
+                    <reviews>
+                        <xsl:for-each select="//review">
+                            <review title="{key('books', @book)/title}">
+                                <xsl:value-of select="." />
+                            </review>
+                        </xsl:for-each>
+                    </reviews>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(
+            outXmlString,
+            '<reviews><review title="Emma">Witty</review><review title="Dune">Epic</review></reviews>'
+        );
+    });
+
+    it('indexes a node by every value of a node-set', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:key name="books-by-tag" match="book" use="tag" />
+                <xsl:template match="/">
+                    <classics>
+                        <xsl:for-each select="key('books-by-tag', 'classic')">
+                            <title>
+                                <xsl:value-of select="title" />
+                            </title>
+                        </xsl:for-each>
+                    </classics>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<classics><title>Dune</title><title>Odes</title></classics>');
+    });
+
+    it('combines declarations with the same name, in document order', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:key name="by-book" match="review" use="@book" />
+                <xsl:key name="by-book" match="book" use="@id" />
+                <xsl:template match="/">
+                    <result count="{count(key('by-book', 'b1'))}">
+                        <xsl:for-each select="key('by-book', //review/@book)">
+                            <xsl:element name="{name()}">
+                                <xsl:value-of select="@id | @book" />
+                            </xsl:element>
+                        </xsl:for-each>
+                    </result>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(
+            outXmlString,
+            '<result count="2"><book>b1</book><book>b3</book><review>b3</review><review>b1</review></result>'
+        );
+    });
+
+    it('reports undeclared keys', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:template match="/">
+                    <result>
+                        <xsl:value-of select="count(key('missing', 'b1'))" />
+                    </result>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        assert.throws(
+            () => xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString)),
+            /Key "missing" is not declared/
+        );
+    });
+});
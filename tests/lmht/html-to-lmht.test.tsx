@@ -15,9 +15,11 @@ describe('HTML to LMHT', () => {
             <xsl:transform
                 xmlns:xsl="http://www.w3.org/1999/XSL/Transform"
                 xmlns:xs="http://www.w3.org/2001/XMLSchema"
+                exclude-result-prefixes="xs"
                 version="2.0"
             >
                 <xsl:output method="xml" version="1.0" omit-xml-declaration="yes" encoding="UTF-8" indent="yes" />
+                <xsl:strip-space elements="*" />
 
                 <xsl:template name="ProcessarTargets">
                     <xsl:param name="Target" />
@@ -1488,19 +1490,19 @@ describe('HTML to LMHT', () => {
     </html>
         `;
 
-        const expectedOutString = `<lmht>` +
-                `<cabeça>` +
-                    `<meta nome="description" conteúdo="LMHT"/>` +
-                    `<meta nome="keywords" conteúdo="HTML, LMHT, Desenvolvimento, Web"/>` +
-                    `<meta nome="author" conteúdo="Leonel Sanches da Silva"/>` +
-                    `<meta nome="viewport" conteúdo="width=device-width, initial-scale=1.0"/>` +
-                    `<título>About - Simple Blog Template</título>` +
-                    `<recurso destino="css/bootstrap.min.css" tipo="stylesheet"/>` +
-                    `<recurso destino="css/simple-blog-template.css" tipo="stylesheet"/>` +
-                `</cabeça>` +
-                `<corpo>` +
-                    `<parágrafo classe="anything">This is a paragraph with a class</parágrafo>` +
-                `</corpo>` +
+        const expectedOutString = `<lmht>\n` +
+                `  <cabeça>\n` +
+                    `    <meta nome="description" conteúdo="LMHT"/>\n` +
+                    `    <meta nome="keywords" conteúdo="HTML, LMHT, Desenvolvimento, Web"/>\n` +
+                    `    <meta nome="author" conteúdo="Leonel Sanches da Silva"/>\n` +
+                    `    <meta nome="viewport" conteúdo="width=device-width, initial-scale=1.0"/>\n` +
+                    `    <título>About - Simple Blog Template</título>\n` +
+                    `    <recurso destino="css/bootstrap.min.css" tipo="stylesheet"/>\n` +
+                    `    <recurso destino="css/simple-blog-template.css" tipo="stylesheet"/>\n` +
+                `  </cabeça>\n` +
+                `  <corpo>\n` +
+                    `    <parágrafo classe="anything">This is a paragraph with a class</parágrafo>\n` +
+                `  </corpo>\n` +
             `</lmht>`
 
         const xsltClass = new Xslt({ selfClosingTags: true });
@@ -15,6 +15,7 @@ describe('LMHT', () => {
             <xsl:transform
                 xmlns:xsl="http://www.w3.org/1999/XSL/Transform"
                 xmlns:xs="http://www.w3.org/2001/XMLSchema"
+                exclude-result-prefixes="xs"
                 version="1.0"
             >
                 <xsl:output method="html" version="5.0" omit-xml-declaration="yes" encoding="UTF-8" indent="yes" />
@@ -1581,14 +1582,13 @@ describe('LMHT', () => {
             </lmht>
         );
 
-        const expectedOutString = (
-            <html>
-                <head>
-                    <title>Teste</title>
-                </head>
-                <body>Teste</body>
-            </html>
-        );
+        const expectedOutString =
+            `<html>\n` +
+            `  <head>\n` +
+            `    <title>Teste</title>\n` +
+            `  </head>\n` +
+            `  <body>Teste</body>\n` +
+            `</html>`;
 
         const xsltClass = new Xslt();
         const xmlParser = new XmlParser();
@@ -1620,21 +1620,21 @@ describe('LMHT', () => {
         );
 
         const expectedOutString =
-            `<html>` +
-            `<head>` +
-            `<meta name="description" content="LMHT">` +
-            `<meta name="keywords" content="HTML, LMHT, Desenvolvimento, Web">` +
-            `<meta name="author" content="Leonel Sanches da Silva">` +
-            `<meta name="viewport" content="width=device-width, initial-scale=1.0">` +
-            `<title>Meu blog</title>` +
-            `<link rel="stylesheet" href="/publico/css/teste.css">` +
-            `</head>` +
-            `<body>` +
-            `<article>` +
-            `<h1>Meu primeiro artigo</h1>` +
-            `<p>Este é meu primeiro artigo.</p>` +
-            `</article>` +
-            `</body>` +
+            `<html>\n` +
+            `  <head>\n` +
+            `    <meta name="description" content="LMHT">\n` +
+            `    <meta name="keywords" content="HTML, LMHT, Desenvolvimento, Web">\n` +
+            `    <meta name="author" content="Leonel Sanches da Silva">\n` +
+            `    <meta name="viewport" content="width=device-width, initial-scale=1.0">\n` +
+            `    <title>Meu blog</title>\n` +
+            `    <link rel="stylesheet" href="/publico/css/teste.css">\n` +
+            `  </head>\n` +
+            `  <body>\n` +
+            `    <article>\n` +
+            `      <h1>Meu primeiro artigo</h1>\n` +
+            `      <p>Este é meu primeiro artigo.</p>\n` +
+            `    </article>\n` +
+            `  </body>\n` +
             `</html>`;
 
         const xsltClass = new Xslt({ selfClosingTags: false });
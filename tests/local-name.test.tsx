@@ -66,7 +66,7 @@ describe('local-name', () => {
     </xhtml:root>;
 
     const xsltString = '<?xml version="1.0"?>' +
-      <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:xhtml="http://www.w3.org/1999/xhtml">
+      <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:xhtml="http://www.w3.org/1999/xhtml" exclude-result-prefixes="xhtml">
         <xsl:template match="test">
           <span> <xsl:value-of select="@name" /> </span>
         </xsl:template>
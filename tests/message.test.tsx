@@ -0,0 +1,111 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { dom } from 'isomorphic-jsx';
+import React from 'react';
+
+import { Xslt, XsltTerminationError } from '../src/xslt';
+import { XmlParser } from '../src/dom';
+
+// Just touching the `dom`, otherwise Babel prunes the import.
+console.log(dom);
+
+describe('xsl:message', () => {
+    const xmlString = (
+        <order>
+            <item price="10" />
+            <item price="-5" />
+        </order>
+    );
+
+    it('sends messages to the message handler', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:template match="/">
+                    <xsl:message>
+                        Items: <xsl:value-of select="count(//item)" />
+                    </xsl:message>
+                    <total>
+                        <xsl:value-of select="sum(//item/@price)" />
+                    </total>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const messages = [];
+        const xsltClass = new Xslt({ onMessage: (message, terminate) => messages.push([message.trim(), terminate]) });
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<total>5</total>');
+        assert.deepEqual(messages, [['Items: 2', false]]);
+    });
+
+    it('stops the transformation with terminate="yes"', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:template match="/">
+                    <xsl:if test="//item[starts-with(@price, '-')]">
+                        <xsl:message terminate="yes">Negative price</xsl:message>
+                    </xsl:if>
+                    <total>
+                        <xsl:value-of select="sum(//item/@price)" />
+                    </total>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const messages = [];
+        const xsltClass = new Xslt({ onMessage: (message, terminate) => messages.push([message, terminate]) });
+        const xmlParser = new XmlParser();
+        assert.throws(
+            () => xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString)),
+            (error: Error) => error instanceof XsltTerminationError && error.message === 'Negative price'
+        );
+        assert.deepEqual(messages, [['Negative price', true]]);
+    });
+
+    it('logs messages to the console by default, and still terminates', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:template match="/">
+                    <xsl:message>Started</xsl:message>
+                    <xsl:if test="count(//item) &gt; 1">
+                        <xsl:message terminate="yes">Too many items</xsl:message>
+                    </xsl:if>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+        try {
+            const xsltClass = new Xslt();
+            const xmlParser = new XmlParser();
+            assert.throws(
+                () => xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString)),
+                (error: Error) => error instanceof XsltTerminationError && error.message === 'Too many items'
+            );
+            assert.deepEqual(log.mock.calls, [['Started'], ['Too many items']]);
+        } finally {
+            log.mockRestore();
+        }
+    });
+
+    it('sends the text of the message, without entity references', () => {
+        // Written as a string, as JSX would write the decoded characters.
+        const xsltString = `<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+            <xsl:template match="/">
+                <xsl:message terminate="yes">Price &lt; 0 &amp; <xsl:value-of select="'count &gt; 1'" /></xsl:message>
+            </xsl:template>
+        </xsl:stylesheet>`;
+
+        const messages = [];
+        const xsltClass = new Xslt({ onMessage: (message) => messages.push(message) });
+        const xmlParser = new XmlParser();
+        assert.throws(
+            () => xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString)),
+            (error: Error) => error instanceof XsltTerminationError && error.message === 'Price < 0 & count > 1'
+        );
+        assert.deepEqual(messages, ['Price < 0 & count > 1']);
+    });
+});
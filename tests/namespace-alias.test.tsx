@@ -0,0 +1,68 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { xsltTransform } from './xslt-test-helpers';
+
+describe('xsl:namespace-alias', () => {
+    const xmlString = `<fields><field>title</field></fields>`;
+
+    it('generates a stylesheet in the XSLT namespace', () => {
+        const generatorString = `<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:axsl="urn:alias">
+            <xsl:namespace-alias stylesheet-prefix="axsl" result-prefix="xsl" />
+            <xsl:template match="/">
+                <axsl:stylesheet version="1.0">
+                    <axsl:template match="/">
+                        <result><axsl:value-of select="/{/fields/field}" /></result>
+                    </axsl:template>
+                </axsl:stylesheet>
+            </xsl:template>
+        </xsl:stylesheet>`;
+
+        const generatedString = xsltTransform(xmlString, generatorString);
+        assert.equal(
+            generatedString,
+            '<xsl:stylesheet xmlns:xsl="http://www.w3.org/1999/XSL/Transform" version="1.0">' +
+                '<xsl:template match="/"><result><xsl:value-of select="/title"/></result></xsl:template>' +
+                '</xsl:stylesheet>'
+        );
+
+        assert.equal(xsltTransform('<title>Report</title>', generatedString), '<result>Report</result>');
+    });
+
+    it('renames namespace declarations and attributes of the alias namespace', () => {
+        const generatorString = `<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:out="urn:alias">
+            <xsl:namespace-alias stylesheet-prefix="out" result-prefix="xsl" />
+            <xsl:template match="/">
+                <out:transform version="1.0" xmlns:out="urn:alias">
+                    <out:variable out:name="field" />
+                </out:transform>
+            </xsl:template>
+        </xsl:stylesheet>`;
+
+        assert.equal(
+            xsltTransform(xmlString, generatorString),
+            '<xsl:transform version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">' +
+                '<xsl:variable xsl:name="field"/></xsl:transform>'
+        );
+    });
+
+    it('supports the default namespace as result', () => {
+        const generatorString = `<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:h="urn:html">
+            <xsl:namespace-alias stylesheet-prefix="h" result-prefix="#default" />
+            <xsl:template match="/">
+                <h:p><xsl:value-of select="/fields/field" /></h:p>
+            </xsl:template>
+        </xsl:stylesheet>`;
+
+        assert.equal(xsltTransform(xmlString, generatorString), '<p>title</p>');
+    });
+
+    it('reports undeclared prefixes', () => {
+        const generatorString = `<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+            <xsl:namespace-alias stylesheet-prefix="axsl" result-prefix="xsl" />
+            <xsl:template match="/" />
+        </xsl:stylesheet>`;
+
+        assert.throws(() => xsltTransform(xmlString, generatorString), /Namespace prefix "axsl" is not declared/);
+    });
+});
@@ -0,0 +1,77 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('namespace fixup', () => {
+    const xmlString = '<doc xmlns:dc="urn:dc" xmlns:x="urn:x"><dc:title x:lang="en">T</dc:title><plain /></doc>';
+
+    const transform = (template: string, stylesheetAttributes: { [name: string]: string } = {}) => xsltTransform(
+        xmlString,
+        xsltStylesheet(`<xsl:template match="/">${template}</xsl:template>`, {
+            'xmlns:a': 'urn:a',
+            'xmlns:b': 'urn:b',
+            'xmlns:ext': 'urn:ext',
+            ...stylesheetAttributes
+        })
+    );
+
+    it('declares the prefixes used once, on the top-level element', () => {
+        assert.equal(
+            transform('<root><a:one /><a:two><b:three /></a:two><a:four xmlns:a="urn:a" /></root>'),
+            '<root xmlns:a="urn:a" xmlns:b="urn:b" xmlns:ext="urn:ext"><a:one/><a:two><b:three/></a:two><a:four/></root>'
+        );
+        assert.equal(
+            transform('<root><a:one /><xsl:element name="a:two" namespace="urn:other" /></root>'),
+            '<root xmlns:a="urn:a" xmlns:b="urn:b" xmlns:ext="urn:ext"><a:one/><a:two xmlns:a="urn:other"/></root>'
+        );
+    });
+
+    it('declares the namespaces of copied nodes', () => {
+        assert.equal(
+            transform('<root xmlns="urn:default"><xsl:copy-of select="/doc/*" /></root>'),
+            '<root xmlns:a="urn:a" xmlns:b="urn:b" xmlns:ext="urn:ext" xmlns="urn:default" xmlns:dc="urn:dc" xmlns:x="urn:x">' +
+                '<dc:title x:lang="en">T</dc:title><plain xmlns=""/></root>'
+        );
+    });
+
+    it('copies the namespaces in scope in the stylesheet to literal result elements, unless they are excluded', () => {
+        assert.equal(
+            transform('<root xmlns:c="urn:c" />', { 'xmlns:p': 'urn:p' }),
+            '<root xmlns:a="urn:a" xmlns:b="urn:b" xmlns:ext="urn:ext" xmlns:p="urn:p" xmlns:c="urn:c"/>'
+        );
+        assert.equal(
+            transform('<root xmlns:c="urn:c" xsl:exclude-result-prefixes="c" />', { 'xmlns:p': 'urn:p', 'exclude-result-prefixes': 'a b ext p' }),
+            '<root/>'
+        );
+    });
+
+    it('does not copy excluded namespaces of literal result elements', () => {
+        assert.equal(
+            transform('<root xmlns:c="urn:c" xmlns:d="urn:d"><b:one /></root>', { 'xmlns:c': 'urn:c', 'exclude-result-prefixes': 'b c' }),
+            '<root xmlns:a="urn:a" xmlns:ext="urn:ext" xmlns:d="urn:d" xmlns:b="urn:b"><b:one/></root>'
+        );
+        assert.equal(
+            transform('<root xmlns:c="urn:c" xsl:exclude-result-prefixes="#all"><item xmlns:d="urn:d" /></root>'),
+            '<root><item xmlns:d="urn:d"/></root>'
+        );
+    });
+
+    it('runs the fallback of extension elements', () => {
+        assert.equal(
+            transform(
+                '<root><ext:thing><xsl:fallback><fallback /></xsl:fallback></ext:thing></root>',
+                { 'extension-element-prefixes': 'ext' }
+            ),
+            '<root xmlns:a="urn:a" xmlns:b="urn:b"><fallback/></root>'
+        );
+        assert.equal(
+            transform('<root xsl:extension-element-prefixes="ext" xmlns:ext="urn:ext"><ext:thing><xsl:fallback>x</xsl:fallback></ext:thing></root>'),
+            '<root xmlns:a="urn:a" xmlns:b="urn:b">x</root>'
+        );
+        assert.throws(
+            () => transform('<root><ext:thing /></root>', { 'extension-element-prefixes': 'ext' }),
+            /<ext:thing> is not a supported extension element, and has no <xsl:fallback>/
+        );
+    });
+});
@@ -0,0 +1,167 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { dom } from 'isomorphic-jsx';
+import React from 'react';
+
+import { Xslt } from '../src/xslt';
+import { XmlParser } from '../src/dom';
+
+// Just touching the `dom`, otherwise Babel prunes the import.
+console.log(dom);
+
+describe('xsl:number', () => {
+    const xmlString = (
+        <book>
+            <chapter>
+                <title>Intro</title>
+                <section>
+                    <figure />
+                    <figure />
+                </section>
+                <section>
+                    <figure />
+                </section>
+            </chapter>
+            <chapter>
+                <title>Body</title>
+                <section>
+                    <figure />
+                    <figure />
+                </section>
+            </chapter>
+        </book>
+    );
+
+    it('numbers the current node among its siblings', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:template match="/">
+                    <toc>
+                        <xsl:for-each select="/book/chapter">
+                            <chapter>
+                                <decimal>
+                                    <xsl:number format="01. " />
+                                </decimal>
+                                <alpha>
+                                    <xsl:number format="A" />
+                                </alpha>
+                                <roman>
+                                    <xsl:number format="(i)" />
+                                </roman>
+                            </chapter>
+                        </xsl:for-each>
+                    </toc>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(
+            outXmlString,
+            '<toc>' +
+                '<chapter><decimal>01. </decimal><alpha>A</alpha><roman>(i)</roman></chapter>' +
+                '<chapter><decimal>02. </decimal><alpha>B</alpha><roman>(ii)</roman></chapter>' +
+                '</toc>'
+        );
+    });
+
+    it('numbers on multiple levels', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:template match="/">
+                    <sections>
+                        <xsl:for-each select="/book/chapter[1]/section">
+                            <section>
+                                <xsl:number level="multiple" count="chapter | section" format="1.a" />
+                            </section>
+                        </xsl:for-each>
+                    </sections>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(outXmlString, '<sections><section>1.a</section><section>1.b</section></sections>');
+    });
+
+    it('numbers on any level, optionally restarting with from', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:template match="/">
+                    <figures>
+                        <xsl:for-each select="/book/chapter[2]/section/figure">
+                            <figure>
+                                <in-book>
+                                    <xsl:number level="any" />
+                                </in-book>
+                                <in-chapter>
+                                    <xsl:number level="any" count="figure" from="chapter" />
+                                </in-chapter>
+                            </figure>
+                        </xsl:for-each>
+                    </figures>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(
+            outXmlString,
+            '<figures>' +
+                '<figure><in-book>4</in-book><in-chapter>1</in-chapter></figure>' +
+                '<figure><in-book>5</in-book><in-chapter>2</in-chapter></figure>' +
+                '</figures>'
+        );
+    });
+
+    it('formats the value attribute', () => {
+        const xsltString = (
+            <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+                <xsl:template match="/">
+                    <values>
+                        <grouped>
+                            <xsl:number value="1234567.4" grouping-separator="." grouping-size="3" />
+                        </grouped>
+                        <roman>
+                            <xsl:number value="1999" format="I" />
+                        </roman>
+                        <alphabetic>
+                            <xsl:number value="28" format="a" />
+                        </alphabetic>
+                        <letter-value>
+                            <xsl:number value="3" format="i" letter-value="alphabetic" />
+                        </letter-value>
+                        <counted>
+                            <xsl:number value="count(//figure)" format="001" />
+                        </counted>
+                    </values>
+                </xsl:template>
+            </xsl:stylesheet>
+        );
+
+        const xsltClass = new Xslt();
+        const xmlParser = new XmlParser();
+        const outXmlString = xsltClass.xsltProcess(xmlParser.xmlParse(xmlString), xmlParser.xmlParse(xsltString));
+
+        assert.equal(
+            outXmlString,
+            '<values>' +
+                '<grouped>1.234.567</grouped>' +
+                '<roman>MCMXCIX</roman>' +
+                '<alphabetic>ab</alphabetic>' +
+                '<letter-value>c</letter-value>' +
+                '<counted>005</counted>' +
+                '</values>'
+        );
+    });
+});
@@ -0,0 +1,84 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('xsl:output', () => {
+    const xmlString = '<doc><title>A &amp; B</title><code>x = 1</code></doc>';
+
+    const transform = (output: string, xsltClass: Xslt = new Xslt()) => xsltTransform(
+        xmlString,
+        xsltStylesheet(
+            `${output}
+            <xsl:template match="/">
+                <page><h1><xsl:value-of select="/doc/title" /></h1><pre><xsl:value-of select="/doc/code" /></pre></page>
+            </xsl:template>`
+        ),
+        xsltClass
+    );
+
+    it('does not write the XML declaration unless asked for', () => {
+        assert.equal(
+            transform('<xsl:output method="xml" version="1.0" encoding="utf-8" />'),
+            '<page><h1>A &amp; B</h1><pre>x = 1</pre></page>'
+        );
+    });
+
+    it('writes the XML declaration with version, encoding and standalone', () => {
+        assert.equal(
+            transform('<xsl:output omit-xml-declaration="no" encoding="ISO-8859-1" />'),
+            '<?xml version="1.0" encoding="ISO-8859-1"?><page><h1>A &amp; B</h1><pre>x = 1</pre></page>'
+        );
+        assert.equal(
+            transform('<xsl:output version="1.1" standalone="yes" />'),
+            '<?xml version="1.1" encoding="UTF-8" standalone="yes"?><page><h1>A &amp; B</h1><pre>x = 1</pre></page>'
+        );
+        assert.equal(
+            transform('<xsl:output omit-xml-declaration="yes" standalone="yes" />'),
+            '<page><h1>A &amp; B</h1><pre>x = 1</pre></page>'
+        );
+    });
+
+    it('writes the document type declaration', () => {
+        assert.equal(
+            transform('<xsl:output doctype-public="-//Example//DTD Page//EN" doctype-system="page.dtd" />'),
+            '<!DOCTYPE page PUBLIC "-//Example//DTD Page//EN" "page.dtd"><page><h1>A &amp; B</h1><pre>x = 1</pre></page>'
+        );
+        assert.equal(
+            transform('<xsl:output omit-xml-declaration="no" doctype-system="page.dtd" />'),
+            '<?xml version="1.0" encoding="UTF-8"?><!DOCTYPE page SYSTEM "page.dtd"><page><h1>A &amp; B</h1><pre>x = 1</pre></page>'
+        );
+        assert.equal(
+            transform('<xsl:output method="html" doctype-public="-//W3C//DTD HTML 4.01//EN" />'),
+            '<!DOCTYPE page PUBLIC "-//W3C//DTD HTML 4.01//EN"><page><h1>A &amp; B</h1><pre>x = 1</pre></page>'
+        );
+        assert.doesNotMatch(
+            transform('<xsl:output method="text" doctype-public="-//Example//DTD Page//EN" doctype-system="page.dtd" />'),
+            /<!DOCTYPE/
+        );
+    });
+
+    it('writes the text of cdata-section-elements as CDATA sections', () => {
+        assert.equal(
+            transform(
+                `<xsl:output cdata-section-elements="pre" />
+                <xsl:output cdata-section-elements="h1" />`
+            ),
+            '<page><h1><![CDATA[A & B]]></h1><pre><![CDATA[x = 1]]></pre></page>'
+        );
+    });
+
+    it('exposes the media type of the result', () => {
+        const xsltClass = new Xslt();
+
+        transform('<xsl:output method="html" />', xsltClass);
+        assert.equal(xsltClass.outputMediaType, 'text/html');
+
+        transform('<xsl:output media-type="application/xhtml+xml" />', xsltClass);
+        assert.equal(xsltClass.outputMediaType, 'application/xhtml+xml');
+
+        transform('', xsltClass);
+        assert.equal(xsltClass.outputMediaType, 'text/xml');
+    });
+});
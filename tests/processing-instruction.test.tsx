@@ -0,0 +1,110 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { DOM_PROCESSING_INSTRUCTION_NODE } from '../src/constants';
+import { XmlParser, xmlText } from '../src/dom';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('processing instructions', () => {
+    const xmlString = `<?xml version="1.0"?>
+<?xml-stylesheet type="text/xsl" href="style.xsl"?>
+<doc><?page-break?><p>A</p><?render mode='fast'?></doc>`;
+
+    const transform = (templates: string) => xsltTransform(xmlString, xsltStylesheet(templates));
+
+    it('keeps processing instructions when parsing', () => {
+        const document = new XmlParser().xmlParse(xmlString);
+
+        assert.equal(document.documentElement.nodeName, 'doc');
+        assert.equal(
+            xmlText(document),
+            `<?xml-stylesheet type="text/xsl" href="style.xsl"?><doc><?page-break?><p>A</p><?render mode='fast'?></doc>`
+        );
+    });
+
+    it('selects processing instructions with XPath', () => {
+        const outXmlString = transform(
+            `<xsl:template match="/">
+                <out>
+                    <xsl:copy-of select="/doc/processing-instruction()" />
+                    <root><xsl:value-of select="count(/processing-instruction())" /></root>
+                    <render><xsl:value-of select="count(//processing-instruction('render'))" /></render>
+                    <value><xsl:value-of select="//processing-instruction('render')" /></value>
+                    <text><xsl:value-of select="/doc" /></text>
+                </out>
+            </xsl:template>`
+        );
+
+        assert.equal(
+            outXmlString,
+            `<out><?page-break?><?render mode='fast'?><root>1</root><render>1</render>` +
+                `<value>mode='fast'</value><text>A</text></out>`
+        );
+    });
+
+    it('keeps processing instructions when parsing HTML', () => {
+        const document = new XmlParser().xmlParse('<!DOCTYPE html><html><?php echo 1; ?><body><?sgml-pi x></body></html>');
+        const html = document.childNodes.find((node) => node.nodeName === 'html');
+
+        assert.deepEqual(
+            [html.firstChild.nodeType, html.firstChild.nodeName, html.firstChild.nodeValue],
+            [DOM_PROCESSING_INSTRUCTION_NODE, 'php', 'echo 1; ']
+        );
+        assert.deepEqual(
+            html.childNodes[1].childNodes.map((node) => [node.nodeName, node.nodeValue]),
+            [['sgml-pi', 'x']]
+        );
+    });
+
+    it('matches processing instructions in template patterns', () => {
+        const outXmlString = transform(
+            `<xsl:template match="/">
+                <xsl:apply-templates select="/doc/node()" />
+            </xsl:template>
+            <xsl:template match="processing-instruction('render')">
+                <render><xsl:value-of select="." /></render>
+            </xsl:template>
+            <xsl:template match="processing-instruction('page-break')">
+                <xsl:copy />
+            </xsl:template>
+            <xsl:template match="p">
+                <para />
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, `<?page-break?><para/><render>mode='fast'</render>`);
+    });
+
+    it('creates processing instructions with xsl:processing-instruction', () => {
+        const outXmlString = transform(
+            `<xsl:template match="/">
+                <out>
+                    <xsl:processing-instruction name="php">echo "?>"; </xsl:processing-instruction>
+                    <a />
+                </out>
+            </xsl:template>`
+        );
+
+        assert.equal(outXmlString, `<out><?php echo "? >"; ?><a/></out>`);
+        assert.equal(
+            transform(
+                `<xsl:template match="/">
+                    <xsl:processing-instruction name="pi">a &amp; b ?&gt; <xsl:value-of select="'&lt;c&gt;'" /></xsl:processing-instruction>
+                </xsl:template>`
+            ),
+            '<?pi a & b ? > <c>?>'
+        );
+    });
+
+    it('rejects invalid processing instruction names', () => {
+        assert.throws(
+            () =>
+                transform(
+                    `<xsl:template match="/">
+                        <xsl:processing-instruction name="xml">version="1.0"</xsl:processing-instruction>
+                    </xsl:template>`
+                ),
+            /Invalid processing instruction name: "xml"/
+        );
+    });
+});
@@ -0,0 +1,82 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('xsl:result-document', () => {
+    const xmlString = '<book><chapter id="intro" title="Introduction" /><chapter id="usage" title="Usage" /></book>';
+
+    const transform = (template: string, xsltClass: Xslt = new Xslt(), declarations: string = '', version: string = '2.0') => xsltTransform(
+        xmlString,
+        xsltStylesheet(`${declarations}<xsl:template match="/">${template}</xsl:template>`, { version }),
+        xsltClass
+    );
+
+    const pages = `<index>
+        <xsl:for-each select="/book/chapter">
+            <xsl:result-document href="{@id}.html" format="page">
+                <html><body><h1><xsl:value-of select="@title" /></h1></body></html>
+            </xsl:result-document>
+            <link href="{@id}.html" />
+        </xsl:for-each>
+    </index>`;
+
+    it('returns the secondary results by URI, and the principal result as before', () => {
+        const xsltClass = new Xslt();
+        const outXmlString = transform(
+            pages,
+            xsltClass,
+            '<xsl:output name="page" method="html" doctype-system="about:legacy-compat" />'
+        );
+
+        assert.equal(outXmlString, '<index><link href="intro.html"/><link href="usage.html"/></index>');
+        assert.deepEqual(xsltClass.resultDocuments, {
+            'intro.html': '<!DOCTYPE html SYSTEM "about:legacy-compat"><html><body><h1>Introduction</h1></body></html>',
+            'usage.html': '<!DOCTYPE html SYSTEM "about:legacy-compat"><html><body><h1>Usage</h1></body></html>'
+        });
+    });
+
+    it('passes the secondary results to the output handler', () => {
+        const results: string[] = [];
+        const xsltClass = new Xslt({ onResultDocument: (href, content) => results.push(`${href}: ${content}`) });
+        transform(
+            `<xsl:result-document href="data.xml" omit-xml-declaration="no" cdata-section-elements="note">
+                <data count="{count(/book/chapter)}"><note>a &amp; b</note></data>
+            </xsl:result-document>`,
+            xsltClass
+        );
+
+        assert.deepEqual(results, [
+            'data.xml: <?xml version="1.0" encoding="UTF-8"?><data count="2"><note><![CDATA[a & b]]></note></data>'
+        ]);
+    });
+
+    it('keeps the output settings of the principal result', () => {
+        const xsltClass = new Xslt();
+        const outXmlString = transform(
+            '<root><xsl:result-document href="notes.txt" method="text">Notes</xsl:result-document></root>',
+            xsltClass,
+            '<xsl:output method="xml" omit-xml-declaration="no" />'
+        );
+
+        assert.equal(outXmlString, '<?xml version="1.0" encoding="UTF-8"?><root/>');
+        assert.equal(xsltClass.resultDocuments['notes.txt'], 'Notes');
+        assert.equal(xsltClass.outputMethod, 'xml');
+    });
+
+    it('reports invalid result documents', () => {
+        assert.throws(
+            () => transform('<xsl:result-document href="a.xml"><a /></xsl:result-document>', new Xslt(), '', '1.0'),
+            /<xsl:result-document> requires XSLT version 2.0 or later/
+        );
+        assert.throws(
+            () => transform(pages.replace('{@id}.html" format="page"', 'same.html"')),
+            /Two result documents have the same URI: "same.html"/
+        );
+        assert.throws(
+            () => transform(pages),
+            /The output format "page" of <xsl:result-document> is not declared/
+        );
+    });
+});
@@ -24,7 +24,7 @@ describe('root-element', () => {
         const xsltString =
             '<?xml version="1.0"?>' +
             (
-                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:xs="http://www.w3.org/2001/XMLSchema">
+                <xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform" xmlns:xs="http://www.w3.org/2001/XMLSchema" exclude-result-prefixes="xs">
                     <xsl:template match="test">
                         <span>
                             {' '}
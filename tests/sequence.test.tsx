@@ -0,0 +1,95 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('sequences', () => {
+    const transform = (template: string, declarations: string = '', version: string = '2.0') => xsltTransform(
+        '<doc><item>a</item><item>b</item><item>c</item></doc>',
+        xsltStylesheet(`${declarations}<xsl:template match="/"><out>${template}</out></xsl:template>`, {
+            version,
+            'xmlns:xs': 'http://www.w3.org/2001/XMLSchema',
+            'xmlns:f': 'urn:functions',
+            'exclude-result-prefixes': 'xs f'
+        })
+    );
+
+    it('are built by the comma operator, and written item by item', () => {
+        assert.equal(
+            transform(
+                `<all><xsl:value-of select="(1, 'two', /doc/item)" /></all>
+                <joined><xsl:value-of select="/doc/item, 'd'" separator="|" /></joined>
+                <copy><xsl:copy-of select="(1, 2, /doc/item[1], 3)" /></copy>`
+            ),
+            '<out><all>1 two a b c</all><joined>a|b|c|d</joined><copy>1 2<item>a</item>3</copy></out>'
+        );
+        assert.equal(
+            transform(
+                `<xsl:variable name="separator" select="'; '" />
+                <xsl:value-of select="(/doc/item, 'd')" separator="{$separator}{count(/doc/item)}: " />`
+            ),
+            '<out>a; 3: b; 3: c; 3: d</out>'
+        );
+        assert.throws(
+            () => transform('<xsl:value-of select="/doc/item, \'d\'" />', '', '1.0'),
+            /Sequence expressions require XSLT version 2.0 or later/
+        );
+        assert.throws(
+            () => transform('<xsl:value-of select="count((1, 2))" />', '', '1.0'),
+            /Sequence expressions require XSLT version 2.0 or later/
+        );
+    });
+
+    it('are accepted and returned by functions', () => {
+        assert.equal(
+            transform(
+                `<count><xsl:value-of select="count(tokenize('x, y,z', ',\\s*'))" /></count>
+                <join><xsl:value-of select="string-join(tokenize('x y z', ' '), '+')" /></join>
+                <sum><xsl:value-of select="sum((1, 2.5, count(/doc/item)))" /></sum>
+                <xsl:for-each select="tokenize('x,y', ',')"><token position="{position()}"><xsl:value-of select="." /></token></xsl:for-each>`
+            ),
+            '<out><count>3</count><join>x+y+z</join><sum>6.5</sum><token position="1">x</token><token position="2">y</token></out>'
+        );
+    });
+
+    it('follow the atomization and effective boolean value rules', () => {
+        assert.equal(
+            transform(
+                `<xsl:if test="(/doc/item, 0)"><nodes /></xsl:if>
+                <xsl:if test="()"><empty /></xsl:if>
+                <xsl:if test="('', 'a')[2]"><filtered /></xsl:if>
+                <xsl:if test="(1, 2) = /doc/item or ('b', 'z') = /doc/item"><compared /></xsl:if>`
+            ),
+            '<out><nodes/><filtered/><compared/></out>'
+        );
+        assert.throws(() => transform('<xsl:if test="(1, 2)" />'), /effective boolean value of a sequence of several atomic values/);
+    });
+
+    it('are produced by xsl:sequence in functions and variables', () => {
+        assert.equal(
+            transform(
+                `<xsl:variable name="letters"><xsl:sequence select="('a', 'b')" /></xsl:variable>
+                <evens><xsl:value-of select="f:evens(6)" /></evens>
+                <count><xsl:value-of select="count(f:evens(6))" /></count>
+                <first><xsl:copy-of select="f:first(/doc/item)" /></first>
+                <letters><xsl:value-of select="string-join($letters, '/')" /></letters>
+                <xsl:sequence select="(/doc/item[2], 'text')" />`,
+                `<xsl:function name="f:evens" as="xs:integer*">
+                    <xsl:param name="max" />
+                    <xsl:for-each select="tokenize('1 2 3 4 5 6', ' ')">
+                        <xsl:if test=". mod 2 = 0 and . &lt;= $max"><xsl:sequence select="number(.)" /></xsl:if>
+                    </xsl:for-each>
+                </xsl:function>
+                <xsl:function name="f:first">
+                    <xsl:param name="nodes" />
+                    <xsl:sequence select="$nodes[1]" />
+                </xsl:function>`
+            ),
+            '<out><evens>2 4 6</evens><count>3</count><first><item>a</item></first><letters>a/b</letters><item>b</item>text</out>'
+        );
+        assert.throws(
+            () => transform('<xsl:sequence select="1" />', '', '1.0'),
+            /<xsl:sequence> requires XSLT version 2.0 or later/
+        );
+    });
+});
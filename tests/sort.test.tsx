@@ -0,0 +1,129 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { XsltOptions } from '../src/xslt/xslt-options';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('xsl:sort', () => {
+    const words = '<list><w>zebra</w><w>Äpfel</w><w>apple</w><w>Apple</w><w>ähnlich</w><w>Zoo</w></list>';
+
+    const sortedValues = (xmlString: string, sort: string, options: Partial<XsltOptions> = {}) => {
+        const outXmlString = xsltTransform(
+            xmlString,
+            xsltStylesheet(
+                `<xsl:template match="/">
+                    <out>
+                        <xsl:for-each select="//w">
+                            ${sort}
+                            <v><xsl:value-of select="." /></v>
+                        </xsl:for-each>
+                    </out>
+                </xsl:template>`
+            ),
+            new Xslt(options)
+        );
+        return outXmlString.replace(/<\/?out>|<v>/g, '').split('</v>').filter((v) => v);
+    };
+
+    it('compares by code point without lang or case-order', () => {
+        assert.deepEqual(sortedValues(words, '<xsl:sort select="." />'), [
+            'Apple', 'Zoo', 'apple', 'zebra', 'Äpfel', 'ähnlich'
+        ]);
+    });
+
+    it('sorts according to the language', () => {
+        assert.deepEqual(sortedValues(words, '<xsl:sort select="." lang="de" />'), [
+            'ähnlich', 'Äpfel', 'apple', 'Apple', 'zebra', 'Zoo'
+        ]);
+        assert.deepEqual(sortedValues(words, '<xsl:sort select="." lang="sv" />'), [
+            'apple', 'Apple', 'zebra', 'Zoo', 'ähnlich', 'Äpfel'
+        ]);
+        assert.deepEqual(
+            sortedValues('<list><w>すいか</w><w>いちご</w><w>アイス</w></list>', '<xsl:sort select="." lang="ja" />'),
+            ['アイス', 'いちご', 'すいか']
+        );
+    });
+
+    it('uses case-order', () => {
+        assert.deepEqual(sortedValues(words, '<xsl:sort select="." lang="en" case-order="upper-first" />'), [
+            'ähnlich', 'Äpfel', 'Apple', 'apple', 'zebra', 'Zoo'
+        ]);
+        assert.deepEqual(sortedValues(words, '<xsl:sort select="." lang="en" case-order="lower-first" />'), [
+            'ähnlich', 'Äpfel', 'apple', 'Apple', 'zebra', 'Zoo'
+        ]);
+    });
+
+    it('evaluates lang, case-order and collation as attribute value templates', () => {
+        const swedishWords = words.replace('<list>', '<list lang="sv" case-order="upper-first">');
+        assert.deepEqual(
+            sortedValues(swedishWords, '<xsl:sort select="." lang="{/list/@lang}" case-order="{/list/@case-order}" />'),
+            ['Apple', 'apple', 'zebra', 'Zoo', 'ähnlich', 'Äpfel']
+        );
+        assert.deepEqual(
+            sortedValues(
+                '<list><w>bbb</w><w>a</w><w>cc</w></list>',
+                '<xsl:sort select="." collation="urn:{name(/*)}" />',
+                { collations: { 'urn:list': (a: string, b: string) => a.length - b.length } }
+            ),
+            ['a', 'cc', 'bbb']
+        );
+    });
+
+    it('puts NaN first in ascending numeric order', () => {
+        const numbers = '<list><w>10</w><w>x</w><w>2</w><w>-1</w></list>';
+
+        assert.deepEqual(sortedValues(numbers, '<xsl:sort select="." data-type="number" />'), ['x', '-1', '2', '10']);
+        assert.deepEqual(
+            sortedValues(numbers, '<xsl:sort select="." data-type="number" order="descending" />'),
+            ['10', '2', '-1', 'x']
+        );
+    });
+
+    it('evaluates data-type and order as attribute value templates', () => {
+        const numbers = '<list type="number" order="descending"><w>10</w><w>9</w><w>100</w></list>';
+
+        assert.deepEqual(
+            sortedValues(numbers, '<xsl:sort select="." data-type="{/list/@type}" order="{/list/@order}" />'),
+            ['100', '10', '9']
+        );
+        assert.deepEqual(sortedValues(numbers, '<xsl:sort select="." order="{/list/@order}" />'), ['9', '100', '10']);
+        assert.throws(
+            () => sortedValues(numbers, '<xsl:sort select="." data-type="{name(/*)}" />'),
+            /Invalid data-type: "list". Use "text" or "number"./
+        );
+        assert.throws(
+            () => sortedValues(numbers, '<xsl:sort select="." order="{/list/@type}" />'),
+            /Invalid order: "number". Use "ascending" or "descending"./
+        );
+    });
+
+    it('sorts by several keys', () => {
+        const people = '<list><w last="Berg">Ana</w><w last="Alm">Eva</w><w last="Berg">Ada</w></list>';
+
+        assert.deepEqual(sortedValues(people, '<xsl:sort select="@last" /><xsl:sort select="." />'), [
+            'Eva', 'Ada', 'Ana'
+        ]);
+    });
+
+    it('uses the registered collations', () => {
+        const byLength = (a: string, b: string) => a.length - b.length;
+        const values = '<list><w>bbb</w><w>a</w><w>cc</w></list>';
+
+        assert.deepEqual(
+            sortedValues(values, '<xsl:sort select="." collation="urn:length" />', { collations: { 'urn:length': byLength } }),
+            ['a', 'cc', 'bbb']
+        );
+        assert.deepEqual(
+            sortedValues(
+                values,
+                '<xsl:sort select="." collation="http://www.w3.org/2005/xpath-functions/collation/codepoint" order="descending" />'
+            ),
+            ['cc', 'bbb', 'a']
+        );
+        assert.throws(
+            () => sortedValues(values, '<xsl:sort select="." collation="urn:unknown" />'),
+            /Collation "urn:unknown" is not registered/
+        );
+    });
+});
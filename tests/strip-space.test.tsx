@@ -0,0 +1,80 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { XmlParser } from '../src/dom';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('xsl:strip-space and xsl:preserve-space', () => {
+    const xmlString = `<doc xmlns:x="urn:x">
+    <list>
+        <item>A</item>
+        <item>B</item>
+    </list>
+    <pre> </pre>
+    <x:code> </x:code>
+    <poem xml:space="preserve">
+        <line>L</line>
+    </poem>
+</doc>`;
+
+    const transform = (declarations: string) => xsltTransform(
+        xmlString,
+        xsltStylesheet(
+            `${declarations}
+            <xsl:template match="/">
+                <result>
+                    <list><xsl:value-of select="count(/doc/list/node())" /></list>
+                    <before><xsl:value-of select="count(/doc/list/item[1]/preceding-sibling::node())" /></before>
+                    <pre><xsl:value-of select="count(/doc/pre/text())" /></pre>
+                    <code><xsl:value-of select="count(/doc/*[local-name() = 'code']/text())" /></code>
+                    <poem><xsl:value-of select="count(/doc/poem/text())" /></poem>
+                </result>
+            </xsl:template>`,
+            { 'xmlns:y': 'urn:x', 'exclude-result-prefixes': 'y' }
+        )
+    );
+
+    it('preserves whitespace by default', () => {
+        assert.equal(
+            transform(''),
+            '<result><list>5</list><before>1</before><pre>1</pre><code>1</code><poem>2</poem></result>'
+        );
+    });
+
+    it('strips whitespace-only text nodes before templates run', () => {
+        assert.equal(
+            transform('<xsl:strip-space elements="*" />'),
+            '<result><list>2</list><before>0</before><pre>0</pre><code>0</code><poem>2</poem></result>'
+        );
+    });
+
+    it('leaves the source document unchanged', () => {
+        const xsltString = `<xsl:stylesheet version="1.0" xmlns:xsl="http://www.w3.org/1999/XSL/Transform">
+            <xsl:strip-space elements="*" />
+            <xsl:variable name="items" select="count(/doc/list/node())" />
+            <xsl:template match="/"><result><xsl:value-of select="$items" /></result></xsl:template>
+        </xsl:stylesheet>`;
+
+        const xmlParser = new XmlParser();
+        const xmlDocument = xmlParser.xmlParse(xmlString);
+        const list = xmlDocument.documentElement.childNodes.find((c) => c.nodeName === 'list');
+        const listChildNodes = list.childNodes.slice();
+
+        assert.equal(new Xslt().xsltProcess(xmlDocument, xmlParser.xmlParse(xsltString)), '<result>2</result>');
+        assert.deepEqual(list.childNodes, listChildNodes);
+        assert.equal(listChildNodes.length, 5);
+    });
+
+    it('gives names priority over prefix:* and *', () => {
+        assert.equal(
+            transform('<xsl:strip-space elements="*" /><xsl:preserve-space elements="pre y:*" />'),
+            '<result><list>2</list><before>0</before><pre>1</pre><code>1</code><poem>2</poem></result>'
+        );
+
+        assert.equal(
+            transform('<xsl:preserve-space elements="*" /><xsl:strip-space elements="list y:code" />'),
+            '<result><list>2</list><before>0</before><pre>1</pre><code>0</code><poem>2</poem></result>'
+        );
+    });
+});
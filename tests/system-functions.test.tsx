@@ -0,0 +1,55 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('system-property(), element-available() and function-available()', () => {
+    const evaluate = (expression: string, xsltClass: Xslt = new Xslt(), version: string = '1.0') => xsltTransform(
+        '<doc />',
+        xsltStylesheet(`<xsl:template match="/"><out><xsl:value-of select="${expression}" /></out></xsl:template>`, {
+            version,
+            'xmlns:t': 'http://www.w3.org/1999/XSL/Transform',
+            'xmlns:exsl': 'http://exslt.org/common',
+            'xmlns:fn': 'http://www.w3.org/2005/xpath-functions',
+            'xmlns:f': 'http://www.w3.org/2005/xpath-functions',
+            'exclude-result-prefixes': 'exsl fn f'
+        }),
+        xsltClass
+    ).replace(/<\/?out>/g, '');
+
+    it('reports the system properties', () => {
+        assert.equal(evaluate(`system-property('xsl:version')`), '1');
+        assert.equal(evaluate(`system-property('t:version') &gt;= 1.0`), 'true');
+        assert.equal(evaluate(`system-property('xsl:version')`, new Xslt(), '2.0'), '2');
+        assert.equal(evaluate(`system-property('xsl:version') &gt;= 2.0`, new Xslt(), '2.0'), 'true');
+        assert.equal(evaluate(`system-property('xsl:vendor')`), 'Design Liquido');
+        assert.equal(evaluate(`system-property('xsl:vendor-url')`), 'https://github.com/DesignLiquido/xslt-processor');
+        assert.equal(evaluate(`system-property('xsl:unknown')`), '');
+        assert.equal(evaluate(`system-property('exsl:version')`), '');
+    });
+
+    it('reports the implemented instructions', () => {
+        assert.equal(evaluate(`element-available('xsl:value-of')`), 'true');
+        assert.equal(evaluate(`element-available('t:number')`), 'true');
+        assert.equal(evaluate(`element-available('xsl:fallback')`), 'true');
+        assert.equal(evaluate(`element-available('xsl:template')`), 'false');
+        assert.equal(evaluate(`element-available('exsl:document')`), 'false');
+
+        const xsltClass = new Xslt();
+        xsltClass.elementHandlers.document = { instruction: true, process: () => {} };
+        assert.equal(evaluate(`element-available('xsl:document')`, xsltClass), 'true');
+    });
+
+    it('reports the callable functions', () => {
+        assert.equal(evaluate(`function-available('concat')`), 'true');
+        assert.equal(evaluate(`function-available('document')`), 'true');
+        assert.equal(evaluate(`function-available('ext-join')`), 'true');
+        assert.equal(evaluate(`function-available('exsl:node-set')`), 'false');
+        assert.equal(evaluate(`function-available('fn:concat')`), 'true');
+        assert.equal(evaluate(`function-available('f:string-length')`), 'true');
+        assert.equal(evaluate(`function-available('exsl:concat')`), 'false');
+        assert.equal(evaluate(`fn:concat('a', f:string(1))`), 'a1');
+        assert.equal(evaluate(`function-available('toString')`), 'false');
+    });
+});
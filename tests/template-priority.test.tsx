@@ -0,0 +1,71 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('template conflict resolution', () => {
+    const xmlString = `<list xmlns:x="urn:x"><item>A</item><x:note>B</x:note><other>C</other></list>`;
+
+    const transform = (templates: string, onWarning?: (message: string) => void) => xsltTransform(
+        xmlString,
+        xsltStylesheet(
+            `<xsl:template match="/"><result><xsl:apply-templates select="/list/*" /></result></xsl:template>${templates}`,
+            { 'xmlns:x': 'urn:x', 'exclude-result-prefixes': 'x' }
+        ),
+        new Xslt({ escape: true, selfClosingTags: true, onWarning })
+    );
+
+    it('uses the default priorities of the patterns', () => {
+        const outXmlString = transform(
+            `<xsl:template match="node()"><node /></xsl:template>
+            <xsl:template match="*"><any /></xsl:template>
+            <xsl:template match="x:*"><namespaced /></xsl:template>
+            <xsl:template match="list/item"><path /></xsl:template>
+            <xsl:template match="item"><name /></xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<result><path/><namespaced/><any/></result>');
+    });
+
+    it('uses the priority attribute', () => {
+        const outXmlString = transform(
+            `<xsl:template match="*" priority="2"><any /></xsl:template>
+            <xsl:template match="item"><name /></xsl:template>
+            <xsl:template match="other" priority="-1"><low /></xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<result><any/><any/><any/></result>');
+    });
+
+    it('uses the priority of the matching alternative of a union', () => {
+        const outXmlString = transform(
+            `<xsl:template match="list/item | *"><union /></xsl:template>
+            <xsl:template match="item"><name /></xsl:template>
+            <xsl:template match="other"><name /></xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<result><union/><union/><name/></result>');
+    });
+
+    it('uses the last declared template rule and warns about the ambiguity', () => {
+        const warnings: string[] = [];
+        const outXmlString = transform(
+            `<xsl:template match="item"><first /></xsl:template>
+            <xsl:template match="item"><second /></xsl:template>`,
+            (message) => warnings.push(message)
+        );
+
+        assert.equal(outXmlString, '<result><second/>BC</result>');
+        assert.deepEqual(warnings, ['Ambiguous template rules for node "item": "item", "item". The last one is used.']);
+    });
+
+    it('only uses template rules of the same mode', () => {
+        const outXmlString = transform(
+            `<xsl:template match="item" mode="toc"><toc /></xsl:template>
+            <xsl:template match="*"><any /></xsl:template>`
+        );
+
+        assert.equal(outXmlString, '<result><any/><any/><any/></result>');
+    });
+});
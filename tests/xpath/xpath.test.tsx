@@ -36,7 +36,9 @@ const expr = [
     '$x//title',
     // "$x/title",  // TODO(mesch): parsing of this expression is broken
     "id('a')//title",
+    "id('a')[1]/title",
     '//*[@about]',
+    'x:*',
     'count(descendant::*)',
     'count(descendant::*) + count(ancestor::*)',
     "concat(substring-before(@image,'marker'),'icon',substring-after(@image,'marker'))",
@@ -357,6 +359,8 @@ const numExpr = [
     ["matches('ajaxslt', '[pqr]')", false],
     ["matches('ajaxslt', '^AJAX')", false],
     ["matches('ajaxslt', '^AJAX', 'i')", true],
+    ["matches('a+b', 'a+b', 'q')", true],
+    ["matches('aXb', 'a . b', 'x')", true],
     ["matches('ajaxslt', 'a', 'z')", 'Invalid regular expression syntax: z'],
     ["matches('ajaxslt', '?')", 'Invalid matches argument: ?'],
 
@@ -574,6 +578,22 @@ describe('xpath', () => {
         }
     });
 
+    it('evaluates sequences from XPath 2.0', () => {
+        const xPath = new XPath();
+        const document = xmlParser.xmlParse('<doc />');
+        const ctx = new ExprContext([document], [], '2.0');
+
+        assert.equal(xPath.xPathParse("count((1, 'two', 3))").evaluate(ctx).numberValue(), 3);
+        assert.equal(xPath.xPathParse('count(())').evaluate(ctx).numberValue(), 0);
+        assert.equal(xPath.xPathParse('(1, 2, 3)[. > 1] = 3').evaluate(ctx).booleanValue(), true);
+        assert.equal(xPath.xPathParse('(1, 2) = (3, 4)').evaluate(ctx).booleanValue(), false);
+        assert.equal(xPath.xPathParse("string-join(('a', 'b', 'c'), '-')").evaluate(ctx).stringValue(), 'a-b-c');
+        assert.throws(
+            () => xPath.xPathParse('1, 2').evaluate(new ExprContext([document], [])),
+            /Sequence expressions require XSLT version 2.0 or later/
+        );
+    });
+
     it('can evaluate axis on a context', () => {
         // For the following axis expressions, we need full control over the
         // entire document. We verify that they give the
@@ -0,0 +1,117 @@
+/* eslint-disable no-undef */
+import assert from 'assert';
+
+import { Xslt } from '../src/xslt';
+import { xsltStylesheet, xsltTransform } from './xslt-test-helpers';
+
+describe('xsl:function', () => {
+    const transform = (declarations: string, template: string, xsltClass: Xslt = new Xslt(), version: string = '2.0') => xsltTransform(
+        '<doc><n>1</n><n>2</n><n>3</n></doc>',
+        xsltStylesheet(`${declarations}<xsl:template match="/"><out>${template}</out></xsl:template>`, {
+            version,
+            'xmlns:xs': 'http://www.w3.org/2001/XMLSchema',
+            'xmlns:f': 'urn:functions',
+            'exclude-result-prefixes': 'xs f'
+        }),
+        xsltClass
+    );
+
+    const factorial = `<xsl:function name="f:fact" as="xs:integer">
+        <xsl:param name="n" as="xs:integer" />
+        <xsl:choose>
+            <xsl:when test="$n &lt;= 1">1</xsl:when>
+            <xsl:otherwise><xsl:value-of select="$n * (f:fact($n - 1))" /></xsl:otherwise>
+        </xsl:choose>
+    </xsl:function>`;
+
+    it('calls functions from expressions, recursively', () => {
+        assert.equal(
+            transform(factorial, '<xsl:value-of select="f:fact(5) + 1" />'),
+            '<out>121</out>'
+        );
+    });
+
+    it('converts the result to the declared type', () => {
+        assert.equal(
+            transform(
+                `<xsl:function name="f:even" as="xs:boolean">
+                    <xsl:param name="n" />
+                    <xsl:value-of select="$n mod 2 = 0" />
+                </xsl:function>
+                <xsl:function name="f:wrap" as="element()">
+                    <xsl:param name="n" />
+                    <w><xsl:value-of select="$n" /></w>
+                </xsl:function>`,
+                '<xsl:value-of select="count(/doc/n[f:even(.)])" /><xsl:copy-of select="f:wrap(5)" />'
+            ),
+            '<out>1<w>5</w></out>'
+        );
+    });
+
+    it('chooses the function by arity, and can be called from global variables', () => {
+        assert.equal(
+            transform(
+                `<xsl:variable name="answer" select="f:greet('you', '!')" />
+                <xsl:function name="f:greet">
+                    <xsl:param name="who" />
+                    <xsl:value-of select="f:greet($who, '.')" />
+                </xsl:function>
+                <xsl:function name="f:greet">
+                    <xsl:param name="who" />
+                    <xsl:param name="end" />
+                    <xsl:value-of select="concat('Hello, ', $who, $end)" />
+                </xsl:function>`,
+                '<a><xsl:value-of select="f:greet(\'me\')" /></a><b><xsl:value-of select="$answer" /></b>'
+            ),
+            '<out><a>Hello, me.</a><b>Hello, you!</b></out>'
+        );
+    });
+
+    it('sees the global variables, but not the variables of the caller', () => {
+        const declarations = `<xsl:param name="greeting" select="'Hello'" />
+            <xsl:function name="f:greet">
+                <xsl:param name="who" />
+                <xsl:value-of select="concat($greeting, ', ', $who, $end)" />
+            </xsl:function>`;
+        assert.equal(
+            transform(
+                `${declarations}<xsl:variable name="end" select="'!'" />`,
+                '<xsl:variable name="greeting" select="\'Bye\'" /><xsl:value-of select="f:greet(\'you\')" />'
+            ),
+            '<out>Hello, you!</out>'
+        );
+        assert.throws(
+            () => transform(declarations, '<xsl:variable name="end" select="\'!\'" /><xsl:value-of select="f:greet(\'you\')" />'),
+            /Unknown variable: \$end/
+        );
+    });
+
+    it('is reported by function-available()', () => {
+        assert.equal(
+            transform(
+                factorial,
+                '<xsl:value-of select="concat(function-available(\'f:fact\'), function-available(\'f:fact\', 1), function-available(\'f:fact\', 2))" />'
+            ),
+            '<out>truetruefalse</out>'
+        );
+    });
+
+    it('reports invalid calls', () => {
+        assert.throws(
+            () => transform(factorial, '<xsl:value-of select="f:fact(\'x\')" />'),
+            /Expected xs:integer for the parameter \$n of f:fact\(\), but got "x"/
+        );
+        assert.throws(
+            () => transform(factorial, '<xsl:value-of select="f:fact(1, 2)" />'),
+            /Unknown function: f:fact\(\), with 2 argument\(s\)/
+        );
+        assert.throws(
+            () => transform(factorial, '<xsl:value-of select="f:fact(20)" />', new Xslt({ maxFunctionDepth: 10 })),
+            /Stylesheet function calls are nested too deeply in f:fact\(\): the limit is 10/
+        );
+        assert.throws(
+            () => transform(factorial, '', new Xslt(), '1.0'),
+            /<xsl:function> requires XSLT version 2.0 or later/
+        );
+    });
+});
@@ -0,0 +1,31 @@
+import { Xslt } from '../src/xslt';
+import { XDocument, XmlParser } from '../src/dom';
+
+/**
+ * Builds the source of a stylesheet.
+ * @param contents The declarations and template rules of the stylesheet.
+ * @param attributes The attributes of `<xsl:stylesheet>`, such as namespace declarations.
+ * The version is 1.0 unless one is given.
+ * @returns The stylesheet source.
+ */
+export const xsltStylesheet = (contents: string, attributes: { [name: string]: string } = {}) => {
+    const stylesheetAttributes = Object.entries({ version: '1.0', ...attributes })
+        .map(([name, value]) => ` ${name}="${value}"`)
+        .join('');
+    return `<xsl:stylesheet${stylesheetAttributes} xmlns:xsl="http://www.w3.org/1999/XSL/Transform">${contents}</xsl:stylesheet>`;
+};
+
+/**
+ * Transforms an XML document with a stylesheet, parsing any of them given as a string.
+ * @param xml The XML document, or its source.
+ * @param xslt The stylesheet, or its source.
+ * @param xsltClass The processor, for the tests that set its options or read its state after the transformation.
+ * @returns The transformation output.
+ */
+export const xsltTransform = (xml: string | XDocument, xslt: string | XDocument, xsltClass: Xslt = new Xslt()) => {
+    const xmlParser = new XmlParser();
+    return xsltClass.xsltProcess(
+        typeof xml === 'string' ? xmlParser.xmlParse(xml) : xml,
+        typeof xslt === 'string' ? xmlParser.xmlParse(xslt) : xslt
+    );
+};
@@ -115,9 +115,9 @@ describe('xslt', () => {
             </xsl:stylesheet>
 
             // Needs to be this way. `isomorphic-jsx rewrites `<outputA />` as `<outputA></outputA>`.
-            const expectedOutString = `<outputUnknown original-name="root">`+
-                `<outputA/>`+
-                `<outputB>I have text!</outputB>`+
+            const expectedOutString = `<outputUnknown original-name="root">\n`+
+                `  <outputA/>\n`+
+                `  <outputB>I have text!</outputB>\n`+
             `</outputUnknown>`;
 
             const xsltClass = new Xslt();
@@ -168,12 +168,12 @@ describe('xslt', () => {
                 </xsl:template>
             </xsl:stylesheet>;
 
-            const expectedOutString = `<outputUnknown original-name="root">` +
-                `<subnode>Custom text</subnode>` +
-                `<outputA>`+
-                    `<yep/>`+
-                `</outputA>`+
-                `<outputB foo="bar">I have text!</outputB>`+
+            const expectedOutString = `<outputUnknown original-name="root">\n` +
+                `  <subnode>Custom text</subnode>\n` +
+                `  <outputA>\n`+
+                    `    <yep/>\n`+
+                `  </outputA>\n`+
+                `  <outputB foo="bar">I have text!</outputB>\n`+
             `</outputUnknown>`;
 
             const xsltClass = new Xslt();
@@ -213,11 +213,11 @@ describe('xslt', () => {
                 </xsl:template>
             </xsl:stylesheet>;
 
-            const expectedOutString = `<outputUnknown original-name="root">`+
-                `<outputA>`+
-                    `<yep/>`+
-                `</outputA>`+
-                `<outputB foo="bar">I have text!</outputB>`+
+            const expectedOutString = `<outputUnknown original-name="root">\n`+
+                `  <outputA>\n`+
+                    `    <yep/>\n`+
+                `  </outputA>\n`+
+                `  <outputB foo="bar">I have text!</outputB>\n`+
             `</outputUnknown>`;
 
             const xsltClass = new Xslt();
@@ -255,9 +255,9 @@ describe('xslt', () => {
                 </xsl:template>
             </xsl:stylesheet>;
 
-            const expectedOutString = `<outputUnknown original-name="root">`+
-                `<outputA/>`+
-                `<outputB foo="bar">I have text!</outputB>`+
+            const expectedOutString = `<outputUnknown original-name="root">\n`+
+                `  <outputA/>\n`+
+                `  <outputB foo="bar">I have text!</outputB>\n`+
             `</outputUnknown>`;
 
             const xsltClass = new Xslt();